@@ -1,5 +1,114 @@
-import { set } from 'lodash';
-import { IDataObject, INodeExecutionData } from 'n8n-workflow';
+import { cloneDeep, get, isEqual, isPlainObject, last, set, toPath } from 'lodash';
+import { IBinaryKeyData, IDataObject, INodeExecutionData, IPairedItemData } from 'n8n-workflow';
+// Only writing is used, the npm advisories of xlsx affect reading spreadsheets (see README).
+import { utils as xlsxUtils, write as xlsxWrite } from 'xlsx';
+
+export type Aggregation =
+  | 'first'
+  | 'last'
+  | 'sum'
+  | 'count'
+  | 'list'
+  | 'min'
+  | 'max'
+  | 'average'
+  | 'countDistinct'
+  | 'concatenate';
+
+export type JoinType = 'inner' | 'left' | 'right' | 'full' | 'leftAnti' | 'rightAnti';
+
+export type JoinBinary = 'left' | 'right' | 'both' | 'none';
+
+export interface JoinCollision {
+  mode: 'prefix' | 'suffix';
+  leftAffix: string;
+  rightAffix: string;
+}
+
+export type FilterOperation =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'regex'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'isEmpty'
+  | 'isNotEmpty'
+  | 'isInList';
+
+export interface FilterCondition {
+  column: string;
+  operation: FilterOperation;
+  value: string;
+}
+
+export interface SortKey {
+  column: string;
+  direction: 'ascending' | 'descending';
+  comparison: 'numeric' | 'string' | 'date' | 'natural';
+  nulls: 'first' | 'last';
+}
+
+export type ExportFormat = 'csv' | 'tsv' | 'markdown' | 'html' | 'jsonl' | 'xlsx';
+
+export type ColumnType = 'number' | 'boolean' | 'date' | 'json' | 'string';
+
+export interface ConversionOptions {
+  numberLocale: string;
+  dateFormat: string;
+  onError: 'fail' | 'null' | 'keep';
+}
+
+export interface ValidationRule {
+  column: string;
+  rule: 'required' | 'type' | 'allowedValues' | 'pattern' | 'unique' | 'min' | 'max';
+  type: ColumnType;
+  value: string;
+}
+
+export interface WindowFunction {
+  function:
+    | 'rowNumber'
+    | 'rank'
+    | 'denseRank'
+    | 'runningSum'
+    | 'runningAverage'
+    | 'lag'
+    | 'lead'
+    | 'movingAverage'
+    | 'percentOfTotal';
+  column: string;
+  destinationKey: string;
+  offset: number;
+  windowSize: number;
+}
+
+export interface SplitRule {
+  operation: FilterOperation;
+  value: string;
+  output: number;
+}
+
+export type BinaryPolicy = 'keep' | 'drop' | 'first' | 'merge';
+
+export type RowStep = (item: INodeExecutionData, index: number) => INodeExecutionData[];
+
+export type CompareStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface HeaderOptions {
+  headerRow: number;
+  headerRows: number;
+  separator: string;
+  emptyName: string;
+  duplicateName: string;
+}
+
+export interface GroupAggregation {
+  aggregation: Aggregation;
+  column: string;
+  destinationKey: string;
+  separator: string;
+}
 
 /**
  * Get all table column names from the execution data.
@@ -8,212 +117,2094 @@ import { IDataObject, INodeExecutionData } from 'n8n-workflow';
  * @returns {string[]}                   The column names.
  */
 function getTableColumns(items: INodeExecutionData[]): string[] {
-  const length = items.length;
-  if (length > 0) {
-    const tableColumns = Object.keys(items[0].json);
-    for (let itemIndex = 1; itemIndex < length; itemIndex++) {
-      for (const col of Object.keys(items[itemIndex].json)) {
-        if (!tableColumns.includes(col)) tableColumns.push(col);
-      }
+  const tableColumns = new Set<string>();
+  for (const item of items) {
+    for (const col of Object.keys(item.json)) tableColumns.add(col);
+  }
+  return [...tableColumns];
+}
+
+/**
+ * Get the paired items of a row.
+ *
+ * @param   {INodeExecutionData} item - The row.
+ * @returns {IPairedItemData[]}       The paired items.
+ */
+function getPairedItems(item: INodeExecutionData): IPairedItemData[] {
+  if (item.pairedItem === undefined) return [];
+  if (typeof item.pairedItem === 'number') return [{ item: item.pairedItem }];
+  return Array.isArray(item.pairedItem) ? item.pairedItem : [item.pairedItem];
+}
+
+/**
+ * Pairs a new row with the paired items of the rows it was built from.
+ *
+ * @param {INodeExecutionData}   newItem - The new row.
+ * @param {INodeExecutionData[]} sources - The rows the new row was built from.
+ */
+function pairItem(newItem: INodeExecutionData, sources: INodeExecutionData[]): void {
+  const pairedItems = new Map<string, IPairedItemData>();
+  for (const source of sources) {
+    for (const pairedItem of getPairedItems(source)) {
+      pairedItems.set(`${pairedItem.input ?? 0}:${pairedItem.item}`, pairedItem);
+    }
+  }
+  if (pairedItems.size === 1) newItem.pairedItem = [...pairedItems.values()][0];
+  else if (pairedItems.size > 1) newItem.pairedItem = [...pairedItems.values()];
+}
+
+/**
+ * Sets a value at a column name or path of a copied row without changing the nested data of the
+ * row it was copied from.
+ *
+ * @param {IDataObject} json  - The copied row data.
+ * @param {string}      path  - The column name or path with dot notation.
+ * @param {unknown}     value - The value.
+ */
+function setCopied(json: IDataObject, path: string, value: unknown): void {
+  const [column] = toPath(path);
+  if (column !== undefined && json[column] !== undefined) json[column] = cloneDeep(json[column]);
+  set(json, path, value);
+}
+
+/**
+ * Converts a cell value into a number.
+ *
+ * @param   {unknown}             value - The cell value.
+ * @returns {number | undefined}        The number or undefined if the value is not numeric.
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return isNaN(value) ? undefined : value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return isNaN(number) ? undefined : number;
+  }
+  return undefined;
+}
+
+/**
+ * Aggregates multiple cell values into a single value.
+ *
+ * @param   {unknown[]}   values      - The cell values.
+ * @param   {Aggregation} aggregation - How to aggregate the values.
+ * @param   {string}      separator   - The separator used to concatenate the values.
+ * @returns {unknown}                 The aggregated value.
+ * @throws                If aggregation is not a valid option.
+ */
+function aggregate(values: unknown[], aggregation: Aggregation, separator = ', '): unknown {
+  switch (aggregation) {
+    case 'first':
+      return values.length > 0 ? values[0] : null;
+    case 'last':
+      return values.length > 0 ? values[values.length - 1] : null;
+    case 'sum':
+      return values.reduce((sum: number, value) => sum + (toNumber(value) ?? 0), 0);
+    case 'count':
+      return values.length;
+    case 'list':
+      return values;
+    case 'min':
+    case 'max': {
+      const numbers = values.map(toNumber).filter((value): value is number => value !== undefined);
+      if (numbers.length === 0) return null;
+      return numbers.reduce((result, value) =>
+        aggregation === 'min' ? Math.min(result, value) : Math.max(result, value),
+      );
+    }
+    case 'average': {
+      const numbers = values.map(toNumber).filter((value): value is number => value !== undefined);
+      if (numbers.length === 0) return null;
+      return numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
     }
-    return tableColumns;
-  } else {
-    return [];
+    case 'countDistinct':
+      return new Set(values.map((value) => JSON.stringify(value))).size;
+    case 'concatenate':
+      return values
+        .filter((value) => value !== null && value !== undefined)
+        .map((value) => (typeof value === 'object' ? JSON.stringify(value) : String(value)))
+        .join(separator);
+    default:
+      throw new Error(
+        'first, last, sum, count, list, min, max, average, countDistinct or concatenate are valid options',
+      );
   }
 }
 
 /**
  * Transpose the exection data.
  *
- * @param   {INodeExecutionData[]} items - The exection data.
- * @returns {INodeExecutionData[]}       The transposed exection data.
+ * @param   {INodeExecutionData[]} items        - The exection data.
+ * @param   {string}               headerColumn - The column whose values become the new column
+ *   names, the row indexes if empty.
+ * @param   {string}               fieldColumn  - The column for the former column names, omitted
+ *   if empty.
+ * @param   {string}               binary       - Whether the binary data of the rows is dropped,
+ *   taken from the first row or merged from all rows.
+ * @returns {INodeExecutionData[]}              The transposed exection data.
  */
-export function transpose(items: INodeExecutionData[]): INodeExecutionData[] {
+export function transpose(
+  items: INodeExecutionData[],
+  headerColumn = '',
+  fieldColumn = '',
+  binary: 'none' | 'first' | 'merge' = 'none',
+): INodeExecutionData[] {
+  const names =
+    headerColumn !== ''
+      ? getHeaderNames(items.map((item) => item.json[headerColumn]))
+      : items.map((_item, index) => index.toString());
+
+  let binaryData: IBinaryKeyData | undefined;
+  if (binary === 'first' && items.length > 0 && items[0].binary !== undefined) {
+    binaryData = {};
+    Object.assign(binaryData, items[0].binary);
+  } else if (binary === 'merge') {
+    binaryData = {};
+    for (const [index, item] of items.entries()) {
+      for (const [key, data] of Object.entries(item.binary ?? {})) {
+        binaryData[binaryData[key] === undefined ? key : `${key}_${index}`] = data;
+      }
+    }
+  }
+
   let data: IDataObject;
-  return getTableColumns(items).map((key) => {
-    data = {};
-    items.forEach((item, index) => (data[index] = item.json[key]));
-    return { json: data };
-  }) as INodeExecutionData[];
+  return getTableColumns(items)
+    .filter((key) => key !== headerColumn)
+    .map((key) => {
+      data = {};
+      if (fieldColumn !== '') data[fieldColumn] = key;
+      items.forEach((item, index) => (data[names[index]] = item.json[key]));
+
+      const newItem: INodeExecutionData = { json: data };
+      if (binaryData !== undefined) {
+        newItem.binary = {};
+        Object.assign(newItem.binary, binaryData);
+      }
+      pairItem(newItem, items);
+      return newItem;
+    });
 }
 
 /**
- * Navigates in a cell of the exection data.
+ * Unpivots the exection data by turning columns into key value rows.
  *
- * @param   {INodeExecutionData[]} items     - The exection data.
- * @param   {number}               row       - The row number.
- * @param   {string}               col       - The column name.
+ * @param   {INodeExecutionData[]} items        - The exection data.
+ * @param   {string[]}             idColumns    - The columns which are kept on every row.
+ * @param   {string[]}             valueColumns - The columns which are turned into rows, all other
+ *   columns if empty.
+ * @param   {string}               keyName      - The column name for the former column names.
+ * @param   {string}               valueName    - The column name for the former cell values.
+ * @returns {INodeExecutionData[]}              The unpivoted exection data.
+ */
+export function unpivot(
+  items: INodeExecutionData[],
+  idColumns: string[],
+  valueColumns: string[],
+  keyName: string,
+  valueName: string,
+): INodeExecutionData[] {
+  const columns =
+    valueColumns.length > 0
+      ? valueColumns
+      : getTableColumns(items).filter((col) => !idColumns.includes(col));
+  let newItem: INodeExecutionData;
+  const newItems: INodeExecutionData[] = [];
+
+  for (const item of items) {
+    for (const col of columns) {
+      if (item.json[col] === undefined) continue;
+      newItem = {
+        json: {},
+      };
+
+      for (const idCol of idColumns) newItem.json[idCol] = item.json[idCol];
+      newItem.json[keyName] = col;
+      newItem.json[valueName] = item.json[col];
+
+      if (item.binary !== undefined) {
+        newItem.binary = {};
+        Object.assign(newItem.binary, item.binary);
+      }
+      pairItem(newItem, [item]);
+      newItems.push(newItem);
+    }
+  }
+  return newItems;
+}
+
+/**
+ * Pivots the exection data by spreading a key and a value column into new columns.
+ *
+ * @param   {INodeExecutionData[]} items       - The exection data.
+ * @param   {string}               keyColumn   - The column which contains the new column names.
+ * @param   {string}               valueColumn - The column which contains the new cell values.
+ * @param   {Aggregation}          aggregation - How to aggregate values with the same key.
+ * @returns {INodeExecutionData[]}             The pivoted exection data.
+ */
+export function pivot(
+  items: INodeExecutionData[],
+  keyColumn: string,
+  valueColumn: string,
+  aggregation: Aggregation,
+): INodeExecutionData[] {
+  const idColumns = getTableColumns(items).filter(
+    (col) => col !== keyColumn && col !== valueColumn,
+  );
+  const groups = new Map<
+    string,
+    { item: INodeExecutionData; items: INodeExecutionData[]; values: Map<string, unknown[]> }
+  >();
+
+  for (const item of items) {
+    const groupKey = JSON.stringify(idColumns.map((col) => item.json[col] ?? null));
+    let group = groups.get(groupKey);
+    if (group === undefined) {
+      group = { item: { json: {} }, items: [], values: new Map() };
+      for (const col of idColumns) {
+        if (item.json[col] !== undefined) group.item.json[col] = item.json[col];
+      }
+      if (item.binary !== undefined) {
+        group.item.binary = {};
+        Object.assign(group.item.binary, item.binary);
+      }
+      groups.set(groupKey, group);
+    }
+    group.items.push(item);
+
+    const key = String(item.json[keyColumn]);
+    const values = group.values.get(key);
+    if (values === undefined) group.values.set(key, [item.json[valueColumn]]);
+    else values.push(item.json[valueColumn]);
+  }
+
+  return [...groups.values()].map((group) => {
+    for (const [key, values] of group.values) {
+      group.item.json[key] = aggregate(values, aggregation) as IDataObject;
+    }
+    pairItem(group.item, group.items);
+    return group.item;
+  });
+}
+
+/**
+ * Groups the exection data by columns and aggregates the values of each group.
+ *
+ * @param   {INodeExecutionData[]} items        - The exection data.
+ * @param   {string[]}             groupColumns - The columns to group by.
+ * @param   {GroupAggregation[]}   aggregations - The aggregations for each group.
+ * @returns {INodeExecutionData[]}              A single element for each group.
+ */
+export function groupBy(
+  items: INodeExecutionData[],
+  groupColumns: string[],
+  aggregations: GroupAggregation[],
+): INodeExecutionData[] {
+  const groups = new Map<string, INodeExecutionData[]>();
+
+  for (const item of items) {
+    const groupKey = JSON.stringify(groupColumns.map((col) => item.json[col] ?? null));
+    const group = groups.get(groupKey);
+    if (group === undefined) groups.set(groupKey, [item]);
+    else group.push(item);
+  }
+
+  let newItem: INodeExecutionData;
+  return [...groups.values()].map((group) => {
+    newItem = {
+      json: {},
+    };
+
+    for (const col of groupColumns) newItem.json[col] = group[0].json[col] ?? null;
+    for (const { aggregation, column, destinationKey, separator } of aggregations) {
+      const values =
+        column === ''
+          ? group.map((item) => item.json)
+          : group.map((item) => item.json[column]).filter((value) => value !== undefined);
+      set(newItem.json, destinationKey, aggregate(values, aggregation, separator));
+    }
+
+    if (group[0].binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, group[0].binary);
+    }
+    pairItem(newItem, group);
+    return newItem;
+  });
+}
+
+/**
+ * Adds a prefix or suffix to a column name.
+ *
+ * @param   {string}        name      - The column name.
+ * @param   {JoinCollision} collision - Whether to add a prefix or a suffix.
+ * @param   {string}        affix     - The prefix or suffix.
+ * @returns {string}                  The column name with the prefix or suffix.
+ */
+function affixColumn(name: string, collision: JoinCollision, affix: string): string {
+  return collision.mode === 'prefix' ? affix + name : name + affix;
+}
+
+/**
+ * Returns the key of a row for joining, rows with an empty key column never match like in SQL.
+ *
+ * @param   {INodeExecutionData} item - The row.
+ * @param   {string[]}           keys - The key columns.
+ * @returns {string | undefined}      The key or undefined if a key column is null or missing.
+ */
+function getJoinKey(item: INodeExecutionData, keys: string[]): string | undefined {
+  const values = keys.map((col) => item.json[col]);
+  if (values.some((value) => value === null || value === undefined)) return undefined;
+  return JSON.stringify(values);
+}
+
+/**
+ * Joins the exection data with a second exection data by key columns.
+ *
+ * @param   {INodeExecutionData[]} leftItems  - The exection data.
+ * @param   {INodeExecutionData[]} rightItems - The second exection data.
+ * @param   {JoinType}             joinType   - How to join the rows.
+ * @param   {string[]}             leftKeys   - The key columns of the exection data.
+ * @param   {string[]}             rightKeys  - The key columns of the second exection data.
+ * @param   {JoinCollision}        collision  - How to rename column names which exist on both
+ *   sides.
+ * @param   {JoinBinary}           binary     - Which binary data should be kept.
+ * @returns {INodeExecutionData[]}            The joined exection data.
+ * @throws                 If the key columns do not have the same length.
+ */
+export function join(
+  leftItems: INodeExecutionData[],
+  rightItems: INodeExecutionData[],
+  joinType: JoinType,
+  leftKeys: string[],
+  rightKeys: string[],
+  collision: JoinCollision,
+  binary: JoinBinary,
+): INodeExecutionData[] {
+  if (leftKeys.length === 0) throw new Error('At least one key column has to be set!');
+  if (leftKeys.length !== rightKeys.length)
+    throw new Error('The left and right key columns need to have the same length!');
+
+  const anti = joinType === 'leftAnti' || joinType === 'rightAnti';
+  const sharedKeys = leftKeys.filter((key, index) => key === rightKeys[index]);
+  const leftColumns = getTableColumns(leftItems);
+  const rightColumns = getTableColumns(rightItems).filter((col) => !sharedKeys.includes(col));
+  const leftNames = new Map(
+    leftColumns.map((col) => [
+      col,
+      !anti && rightColumns.includes(col) ? affixColumn(col, collision, collision.leftAffix) : col,
+    ]),
+  );
+  const rightNames = new Map(
+    rightColumns.map((col) => [
+      col,
+      !anti && leftColumns.includes(col) ? affixColumn(col, collision, collision.rightAffix) : col,
+    ]),
+  );
+
+  const combine = (left?: INodeExecutionData, right?: INodeExecutionData): INodeExecutionData => {
+    const newItem: INodeExecutionData = {
+      json: {},
+    };
+
+    if (joinType !== 'rightAnti') {
+      for (const [col, name] of leftNames) newItem.json[name] = left?.json[col] ?? null;
+    }
+    if (left === undefined) {
+      for (const key of sharedKeys) newItem.json[key] = right?.json[key] ?? null;
+    }
+    if (joinType !== 'leftAnti') {
+      for (const [col, name] of rightNames) newItem.json[name] = right?.json[col] ?? null;
+    }
+
+    if ((binary === 'left' || binary === 'both') && left?.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, left.binary);
+    }
+    if ((binary === 'right' || binary === 'both') && right?.binary !== undefined) {
+      if (newItem.binary === undefined) newItem.binary = {};
+      for (const [key, data] of Object.entries(right.binary)) {
+        newItem.binary[
+          newItem.binary[key] === undefined
+            ? key
+            : affixColumn(key, collision, collision.rightAffix)
+        ] = data;
+      }
+    }
+    pairItem(
+      newItem,
+      [left, right].filter((item): item is INodeExecutionData => item !== undefined),
+    );
+    return newItem;
+  };
+
+  const rightIndex = new Map<string, INodeExecutionData[]>();
+  for (const item of rightItems) {
+    const key = getJoinKey(item, rightKeys);
+    if (key === undefined) continue;
+    const matches = rightIndex.get(key);
+    if (matches === undefined) rightIndex.set(key, [item]);
+    else matches.push(item);
+  }
+
+  const matchedRight = new Set<INodeExecutionData>();
+  const newItems: INodeExecutionData[] = [];
+  for (const item of leftItems) {
+    const key = getJoinKey(item, leftKeys);
+    const matches = key === undefined ? undefined : rightIndex.get(key);
+    if (matches !== undefined) {
+      for (const match of matches) {
+        matchedRight.add(match);
+        if (!anti) newItems.push(combine(item, match));
+      }
+    } else if (joinType === 'left' || joinType === 'full' || joinType === 'leftAnti') {
+      newItems.push(combine(item, undefined));
+    }
+  }
+
+  if (joinType === 'right' || joinType === 'full' || joinType === 'rightAnti') {
+    for (const item of rightItems) {
+      if (!matchedRight.has(item)) newItems.push(combine(undefined, item));
+    }
+  }
+  return newItems;
+}
+
+/**
+ * Resolves a column name or a path with dot or bracket notation and wildcards in a row.
+ *
+ * @param   {IDataObject} json      - The row data.
+ * @param   {string}      path      - The column name or path like "data.results[*].items".
+ * @param   {boolean}     expand    - Whether to extend the data with the data of each level.
+ * @param   {boolean}     loopArray - Whether arrays on the way are automatically processed as
+ *   rows.
+ * @returns {{ value: unknown; context: IDataObject }[]} The resolved values with the data of the
+ *   previous levels.
+ */
+function resolvePath(
+  json: IDataObject,
+  path: string,
+  expand: boolean,
+  loopArray: boolean,
+): { value: unknown; context: IDataObject }[] {
+  if (json[path] !== undefined) return [{ value: json[path], context: expand ? json : {} }];
+  if (/^\d+$/.test(path) && json[parseInt(path)] !== undefined)
+    return [{ value: json[parseInt(path)], context: expand ? json : {} }];
+
+  let entries: { value: unknown; context: IDataObject }[] = [
+    { value: json, context: expand ? json : {} },
+  ];
+  for (const segment of toPath(path)) {
+    const nextEntries: { value: unknown; context: IDataObject }[] = [];
+    for (const { value, context } of entries) {
+      if (value === null || typeof value !== 'object') {
+        nextEntries.push({ value: undefined, context });
+      } else if (segment === '*' || (loopArray && Array.isArray(value) && !/^\d+$/.test(segment))) {
+        for (const child of Object.values(value)) {
+          const childValue = segment === '*' ? child : (child as IDataObject)?.[segment];
+          if (segment !== '*' && childValue === undefined) continue;
+          nextEntries.push({
+            value: childValue,
+            context: expand && isPlainObject(child) ? { ...context, ...child } : context,
+          });
+        }
+      } else {
+        nextEntries.push({ value: (value as IDataObject)[segment], context });
+      }
+    }
+    entries = nextEntries;
+  }
+  return entries;
+}
+
+/**
+ * Navigates in a cell or a path of a row.
+ *
+ * @param   {INodeExecutionData}   rowData   - The row.
+ * @param   {string}               col       - The column name or path.
  * @param   {boolean}              expand    - Whether to extend the data with the previous data.
  * @param   {boolean}              loopArray - Whether the data, if they represent an array, are
  *   automatically processed as rows.
- * @returns {INodeExecutionData[]}           The navigated exection data.
- * @throws            If row out of bounds.
+ * @returns {INodeExecutionData[]}           The navigated rows.
  */
-export function navigateIntoCell(
-  items: INodeExecutionData[],
-  row: number,
+function navigateInto(
+  rowData: INodeExecutionData,
   col: string,
   expand: boolean,
   loopArray: boolean,
 ): INodeExecutionData[] {
-  if (row < 0) throw new Error('The row has to be set to at least 0 or higher!');
-  if (items.length - 1 < row) throw new Error('The row index is higher then rows length!');
+  const key =
+    rowData.json[col] !== undefined
+      ? col
+      : last(toPath(col).filter((segment) => segment !== '*')) ?? col;
+  let newItem: INodeExecutionData;
+  const newItems: INodeExecutionData[] = [];
 
-  const rowData = items[row];
-  let colData = rowData.json[col];
-  if (colData === undefined) {
-    colData = rowData.json[parseInt(col)];
-  }
-  if (loopArray && Array.isArray(colData)) {
-    let newItem: INodeExecutionData;
-    return colData.map((item) => {
+  for (const { value, context } of resolvePath(rowData.json, col, expand, loopArray)) {
+    for (const item of loopArray && Array.isArray(value) ? value : [value]) {
       newItem = {
         json: {},
       };
 
-      if (expand) Object.assign(newItem.json, rowData.json);
+      Object.assign(newItem.json, context);
       if (typeof item === 'object') Object.assign(newItem.json, item);
-      else newItem.json[col] = item;
+      else newItem.json[key] = item as IDataObject;
+
+      if (rowData.binary !== undefined) {
+        newItem.binary = {};
+        Object.assign(newItem.binary, rowData.binary);
+      }
+      pairItem(newItem, [rowData]);
+      newItems.push(newItem);
+    }
+  }
+  return newItems;
+}
+
+/**
+ * Navigates in a cell of the exection data.
+ *
+ * @param   {INodeExecutionData[]}      items            - The exection data.
+ * @param   {number}                    row              - The row number.
+ * @param   {(index: number) => string} colByIndex       - A function that returns the column name
+ *   or path for an index.
+ * @param   {Function}                  expandbyIndex    - A function that returns for an index
+ *   whether to extend the data with the previous data.
+ * @param   {Function}                  loopArrayByIndex - A function that returns for an index
+ *   whether the data, if they represent an array, are automatically processed as rows.
+ * @returns {INodeExecutionData[]}                       The navigated exection data.
+ * @throws                 If row out of bounds.
+ */
+export function navigateIntoCell(
+  items: INodeExecutionData[],
+  row: number,
+  colByIndex: (index: number) => string,
+  expandbyIndex: (index: number) => boolean,
+  loopArrayByIndex: (index: number) => boolean,
+): INodeExecutionData[] {
+  if (row < 0) throw new Error('The row has to be set to at least 0 or higher!');
+  if (items.length - 1 < row) throw new Error('The row index is higher then rows length!');
+
+  return navigateInto(items[row], colByIndex(row), expandbyIndex(row), loopArrayByIndex(row));
+}
+
+/**
+ * Navigates in a column of the exection data.
+ *
+ * @param   {INodeExecutionData[]}      items            - The exection data.
+ * @param   {(index: number) => string} colByIndex       - A function that returns the column name
+ *   or path for an index.
+ * @param   {Function}                  expandbyIndex    - A function that returns for an index
+ *   whether to extend the data with the previous data.
+ * @param   {Function}                  loopArrayByIndex - A function that returns for an index
+ *   whether the data, if they represent an array, are automatically processed as rows.
+ * @returns {INodeExecutionData[]}                       The navigated exection data.
+ */
+export function navigateIntoCol(
+  items: INodeExecutionData[],
+  colByIndex: (index: number) => string,
+  expandbyIndex: (index: number) => boolean,
+  loopArrayByIndex: (index: number) => boolean,
+): INodeExecutionData[] {
+  const newItems: INodeExecutionData[] = [];
+  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+    for (const newItem of navigateInto(
+      items[itemIndex],
+      colByIndex(itemIndex),
+      expandbyIndex(itemIndex),
+      loopArrayByIndex(itemIndex),
+    ))
+      newItems.push(newItem);
+  }
+  return newItems;
+}
+
+/**
+ * Navigates in a row of the exection data.
+ *
+ * @param   {INodeExecutionData[]} items            - The exection data.
+ * @param   {number}               row              - The row number.
+ * @param   {string}               col              - The column name.
+ * @param   {Function}             expandbyIndex    - A function that returns for an index whether
+ *   to extend the data with the previous data.
+ * @param   {Function}             loopArrayByIndex - A function that returns for an index whether
+ *   the data, if they represent an array, are automatically processed as rows.
+ * @returns {INodeExecutionData[]}                  The navigated exection data.
+ * @throws                   If row out of bounds.
+ */
+export function navigateIntoRow(
+  items: INodeExecutionData[],
+  row: number,
+  col: string,
+  expandbyIndex: (index: number) => boolean,
+  loopArrayByIndex: (index: number) => boolean,
+): INodeExecutionData[] {
+  if (row < 0) throw new Error('The row has to be set to at least 0 or higher!');
+  if (items.length - 1 < row) throw new Error('The row index is higher then rows length!');
+
+  const loopArray = loopArrayByIndex(row);
+  const expand = expandbyIndex(row);
+
+  const rowData: INodeExecutionData = items[row];
+  const newItems: INodeExecutionData[] = [];
+
+  let newItem: INodeExecutionData;
+  for (const [col, colData] of Object.entries(rowData.json)) {
+    for (const item of loopArray && Array.isArray(colData) ? colData : [colData]) {
+      newItem = {
+        json: {},
+      };
+
+      if (expand) Object.assign(newItem.json, rowData.json);
+      if (isPlainObject(item)) Object.assign(newItem.json, item);
+      else newItem.json[col] = item;
+
+      if (rowData.binary !== undefined) {
+        newItem.binary = {};
+        Object.assign(newItem.binary, rowData.binary);
+      }
+      pairItem(newItem, [rowData]);
+      newItems.push(newItem);
+    }
+  }
+  return newItems;
+}
+
+/**
+ * Demotes the header the exection data.
+ *
+ * @param   {INodeExecutionData[]} items     - The exection data.
+ * @param   {string}               separator - The separator to split the column names into
+ *   multiple header rows, a single header row if empty.
+ * @returns {INodeExecutionData[]}           The exection data with demoted header.
+ */
+export function demoteHeader(items: INodeExecutionData[], separator = ''): INodeExecutionData[] {
+  if (items.length === 0) return items;
+  const keys = getTableColumns(items);
+  let newItem: INodeExecutionData;
+
+  const newItems: INodeExecutionData[] = items.map((item) => {
+    newItem = {
+      json: {},
+    };
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+
+    keys.forEach((key, index) => {
+      newItem.json[index] = item.json[key];
+    });
+    return newItem;
+  });
+
+  const levels = keys.map((key) => (separator !== '' ? key.split(separator) : [key]));
+  const headerRows = levels.reduce((rows, names) => Math.max(rows, names.length), 0);
+  for (let level = headerRows - 1; level >= 0; level--) {
+    newItem = { json: { ...levels.map((names) => names[level] ?? '') } };
+    pairItem(newItem, items);
+    newItems.unshift(newItem);
+  }
+  return newItems;
+}
+
+/**
+ * Generates unique column names from header values.
+ *
+ * @param   {unknown[]} values        - The header values.
+ * @param   {string}    emptyName     - The name of empty values, {index} is replaced by the column
+ *   index.
+ * @param   {string}    duplicateName - The name of duplicates, {name} is replaced by the name and
+ *   {counter} by a counter.
+ * @returns {string[]}                The column names.
+ * @throws                    If the duplicate name does not contain {counter}.
+ */
+function getHeaderNames(
+  values: unknown[],
+  emptyName = '{index}',
+  duplicateName = '{name}_{counter}',
+): string[] {
+  if (!duplicateName.includes('{counter}'))
+    throw new Error('The duplicate name has to contain {counter}!');
+  const headerValues = new Set(values.filter((value) => value).map((value) => String(value)));
+  const names = new Set<string>();
+  let counter;
+  let name;
+
+  values.forEach((value, index) => {
+    const baseName = value ? String(value) : emptyName.replace(/{index}/g, index.toString());
+    name = baseName;
+    if (names.has(name) || (!value && headerValues.has(name))) {
+      counter = 0;
+      do {
+        name = duplicateName.replace(/{name}/g, baseName).replace(/{counter}/g, counter.toString());
+        counter++;
+      } while (names.has(name) || headerValues.has(name));
+    }
+    names.add(name);
+  });
+  return [...names];
+}
+
+/**
+ * Promotes the header the exection data.
+ *
+ * @param   {INodeExecutionData[]} items   - The exection data.
+ * @param   {HeaderOptions}        options - Which rows are the header and how they are named.
+ * @returns {INodeExecutionData[]}         The exection data with promoted header.
+ * @throws                 If the header row is out of bounds.
+ */
+export function promoteHeader(
+  items: INodeExecutionData[],
+  options: HeaderOptions = {
+    headerRow: 0,
+    headerRows: 1,
+    separator: ' ',
+    emptyName: '{index}',
+    duplicateName: '{name}_{counter}',
+  },
+): INodeExecutionData[] {
+  if (items.length === 0) return items;
+  if (options.headerRow < 0)
+    throw new Error('The header row has to be set to at least 0 or higher!');
+  if (items.length - 1 < options.headerRow)
+    throw new Error('The header row index is higher then rows length!');
+
+  const headers = items.slice(options.headerRow, options.headerRow + options.headerRows);
+  const keys = getTableColumns(items);
+  const levels = headers.map((header) => keys.map((key) => header.json[key]));
+  levels.slice(0, -1).forEach((values) => {
+    values.forEach((value, index) => {
+      if (!value && index > 0) values[index] = values[index - 1];
+    });
+  });
+  const names = getHeaderNames(
+    keys.map((_key, index) =>
+      levels
+        .map((values) => values[index])
+        .filter((value) => value)
+        .join(options.separator),
+    ),
+    options.emptyName,
+    options.duplicateName,
+  );
+
+  let newItem: INodeExecutionData;
+  return items.slice(options.headerRow + options.headerRows).map((item) => {
+    newItem = {
+      json: {},
+    };
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+
+    keys.forEach((key, index) => {
+      const value = item.json[key];
+      newItem.json[names[index]] = value === undefined || value === '' ? null : value;
+    });
+    return newItem;
+  });
+}
+
+/**
+ * Counts based on countType rows, cols or cells.
+ *
+ * @param   {INodeExecutionData[]}      items                 - The exection data.
+ * @param   {string}                    countType             - What to count.
+ * @param   {(index: number) => string} destinationKeyByIndex - A function that returns for an
+ *   index in which column name the count value should be stored, the first index is used.
+ * @returns {INodeExecutionData[]}                            A single element with the count value.
+ * @throws                 If countType is not rows, cols or cells.
+ */
+export function count(
+  items: INodeExecutionData[],
+  countType: 'rows' | 'cols' | 'cells',
+  destinationKeyByIndex: (index: number) => string,
+): INodeExecutionData[] {
+  const data: IDataObject = {};
+  const destinationKey = destinationKeyByIndex(0);
+  switch (countType) {
+    case 'rows':
+      set(data, destinationKey, items.length);
+      break;
+    case 'cols':
+      if (items.length > 0) {
+        set(data, destinationKey, getTableColumns(items).length);
+      } else {
+        set(data, destinationKey, 0);
+      }
+      break;
+    case 'cells': {
+      const length = items.length;
+      if (length > 0) {
+        set(data, destinationKey, getTableColumns(items).length * length);
+      } else {
+        set(data, destinationKey, 0);
+      }
+      break;
+    }
+    default:
+      throw new Error('rows, cols or cells are valid options');
+  }
+  const newItem: INodeExecutionData = { json: data };
+  pairItem(newItem, items);
+  return [newItem];
+}
+
+/**
+ * Flattens a nested object into a single level object.
+ *
+ * @param   {IDataObject} value         - The nested object.
+ * @param   {string}      separator     - The separator between the keys of each level.
+ * @param   {number}      maxDepth      - How many levels are flattened, 0 for all levels.
+ * @param   {boolean}     flattenArrays - Whether arrays are flattened by their index.
+ * @param   {string}      prefix        - The key of the parent level.
+ * @param   {number}      depth         - The current level.
+ * @param   {IDataObject} result        - The single level object to fill.
+ * @returns {IDataObject}               The single level object.
+ */
+function flattenObject(
+  value: IDataObject,
+  separator: string,
+  maxDepth: number,
+  flattenArrays: boolean,
+  prefix = '',
+  depth = 1,
+  result: IDataObject = {},
+): IDataObject {
+  for (const [key, child] of Object.entries(value)) {
+    const name = prefix === '' ? key : prefix + separator + key;
+    if (
+      (maxDepth === 0 || depth <= maxDepth) &&
+      (isPlainObject(child) || (flattenArrays && Array.isArray(child))) &&
+      Object.keys(child as IDataObject).length > 0
+    ) {
+      flattenObject(
+        child as IDataObject,
+        separator,
+        maxDepth,
+        flattenArrays,
+        name,
+        depth + 1,
+        result,
+      );
+    } else {
+      result[name] = child;
+    }
+  }
+  return result;
+}
+
+/**
+ * Flattens nested objects of the exection data into columns.
+ *
+ * @param   {INodeExecutionData[]} items         - The exection data.
+ * @param   {string}               separator     - The separator between the keys of each level.
+ * @param   {number}               maxDepth      - How many levels are flattened, 0 for all levels.
+ * @param   {boolean}              flattenArrays - Whether arrays are flattened by their index.
+ * @returns {INodeExecutionData[]}               The flattened exection data.
+ */
+export function flatten(
+  items: INodeExecutionData[],
+  separator: string,
+  maxDepth: number,
+  flattenArrays: boolean,
+): INodeExecutionData[] {
+  let newItem: INodeExecutionData;
+  return items.map((item) => {
+    newItem = {
+      json: flattenObject(item.json, separator, maxDepth, flattenArrays),
+    };
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+    return newItem;
+  });
+}
+
+/**
+ * Unflattens the columns of the exection data into nested objects.
+ *
+ * @param   {INodeExecutionData[]} items     - The exection data.
+ * @param   {string}               separator - The separator between the keys of each level.
+ * @returns {INodeExecutionData[]}           The unflattened exection data.
+ */
+export function unflatten(items: INodeExecutionData[], separator: string): INodeExecutionData[] {
+  let newItem: INodeExecutionData;
+  return items.map((item) => {
+    newItem = {
+      json: {},
+    };
+
+    for (const [key, value] of Object.entries(item.json)) {
+      set(newItem.json, separator === '' ? [key] : key.split(separator), value);
+    }
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+    return newItem;
+  });
+}
+
+/**
+ * Converts a cell value into a string for comparisons.
+ *
+ * @param   {unknown} value - The cell value.
+ * @returns {string}        The string, an empty string for null and undefined.
+ */
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Checks whether a cell value is empty.
+ *
+ * @param   {unknown} value - The cell value.
+ * @returns {boolean}       Whether the value is undefined, null, an empty string, array or object.
+ */
+function isEmptyCell(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  if (typeof value === 'object') return Object.keys(value as IDataObject).length === 0;
+  return false;
+}
+
+/**
+ * Compares two cell values numerically if both are numeric, otherwise as strings.
+ *
+ * @param   {unknown} a - The first value.
+ * @param   {unknown} b - The second value.
+ * @returns {number}    A negative number if a is less than b, a positive number if a is greater
+ *   than b, otherwise 0.
+ */
+function compareCells(a: unknown, b: unknown): number {
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (numberA !== undefined && numberB !== undefined) return numberA - numberB;
+  return cellToString(a).localeCompare(cellToString(b));
+}
+
+/**
+ * Checks whether a row matches a filter condition.
+ *
+ * @param   {INodeExecutionData} item      - The row.
+ * @param   {FilterCondition}    condition - The filter condition.
+ * @returns {boolean}                      Whether the row matches.
+ * @throws                       If the operation is not a valid option.
+ */
+function matchesCondition(item: INodeExecutionData, condition: FilterCondition): boolean {
+  const cell = item.json[condition.column];
+  switch (condition.operation) {
+    case 'equals':
+      return cellToString(cell) === condition.value;
+    case 'notEquals':
+      return cellToString(cell) !== condition.value;
+    case 'contains':
+      return cellToString(cell).includes(condition.value);
+    case 'regex':
+      return new RegExp(condition.value).test(cellToString(cell));
+    case 'greaterThan':
+      return !isEmptyCell(cell) && compareCells(cell, condition.value) > 0;
+    case 'lessThan':
+      return !isEmptyCell(cell) && compareCells(cell, condition.value) < 0;
+    case 'isEmpty':
+      return isEmptyCell(cell);
+    case 'isNotEmpty':
+      return !isEmptyCell(cell);
+    case 'isInList':
+      return condition.value
+        .split(',')
+        .map((value) => value.trim())
+        .includes(cellToString(cell));
+    default:
+      throw new Error(
+        'equals, notEquals, contains, regex, greaterThan, lessThan, isEmpty, isNotEmpty or isInList are valid options',
+      );
+  }
+}
+
+/**
+ * Filters the rows of the exection data by conditions.
+ *
+ * @param   {INodeExecutionData[]}   items      - The exection data.
+ * @param   {FilterCondition[]}      conditions - The filter conditions.
+ * @param   {string}                 combine    - Whether all or any condition has to match.
+ * @returns {INodeExecutionData[][]}            The matching rows and the rejected rows.
+ */
+export function filter(
+  items: INodeExecutionData[],
+  conditions: FilterCondition[],
+  combine: 'and' | 'or',
+): [INodeExecutionData[], INodeExecutionData[]] {
+  const keptItems: INodeExecutionData[] = [];
+  const rejectedItems: INodeExecutionData[] = [];
+  for (const item of items) {
+    const matches =
+      combine === 'and'
+        ? conditions.every((condition) => matchesCondition(item, condition))
+        : conditions.some((condition) => matchesCondition(item, condition));
+    if (matches || conditions.length === 0) keptItems.push(item);
+    else rejectedItems.push(item);
+  }
+  return [keptItems, rejectedItems];
+}
+
+/**
+ * Converts a cell value into a sortable value.
+ *
+ * @param   {unknown}                       value      - The cell value.
+ * @param   {SortKey['comparison']}         comparison - How the value is compared.
+ * @returns {number | string | undefined}              The sortable value or undefined if the
+ *   value is empty or can not be converted.
+ */
+function toSortValue(
+  value: unknown,
+  comparison: SortKey['comparison'],
+): number | string | undefined {
+  if (isEmptyCell(value)) return undefined;
+  switch (comparison) {
+    case 'numeric':
+      return toNumber(value);
+    case 'date': {
+      const time = typeof value === 'number' ? value : Date.parse(cellToString(value));
+      return isNaN(time) ? undefined : time;
+    }
+    default:
+      return cellToString(value);
+  }
+}
+
+/**
+ * Sorts the rows of the exection data by one or more columns.
+ *
+ * @param   {INodeExecutionData[]} items    - The exection data.
+ * @param   {SortKey[]}            sortKeys - The columns to sort by in order of priority.
+ * @returns {INodeExecutionData[]}          The sorted exection data.
+ */
+export function sort(items: INodeExecutionData[], sortKeys: SortKey[]): INodeExecutionData[] {
+  const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+  const rows = items.map((item) => ({
+    item,
+    values: sortKeys.map((sortKey) => toSortValue(item.json[sortKey.column], sortKey.comparison)),
+  }));
+
+  rows.sort((a, b) => {
+    for (let index = 0; index < sortKeys.length; index++) {
+      const { direction, comparison, nulls } = sortKeys[index];
+      const valueA = a.values[index];
+      const valueB = b.values[index];
+      if (valueA === undefined || valueB === undefined) {
+        if (valueA === valueB) continue;
+        return (valueA === undefined) === (nulls === 'first') ? -1 : 1;
+      }
+
+      let result: number;
+      if (typeof valueA === 'number' && typeof valueB === 'number') result = valueA - valueB;
+      else if (comparison === 'natural')
+        result = naturalCollator.compare(String(valueA), String(valueB));
+      else result = String(valueA) < String(valueB) ? -1 : String(valueA) > String(valueB) ? 1 : 0;
+
+      if (result !== 0) return direction === 'descending' ? -result : result;
+    }
+    return 0;
+  });
+  return rows.map((row) => row.item);
+}
+
+/**
+ * Removes duplicate rows of the exection data.
+ *
+ * @param   {INodeExecutionData[]} items   - The exection data.
+ * @param   {string[]}             columns - The columns to compare, all columns if empty.
+ * @param   {string}               keep    - Whether the first or the last duplicate is kept.
+ * @returns {INodeExecutionData[]}         The exection data without duplicates.
+ */
+export function removeDuplicates(
+  items: INodeExecutionData[],
+  columns: string[],
+  keep: 'first' | 'last',
+): INodeExecutionData[] {
+  const compareColumns = columns.length > 0 ? columns : getTableColumns(items);
+  const keptIndexes = new Map<string, number>();
+  items.forEach((item, index) => {
+    const key = JSON.stringify(compareColumns.map((col) => item.json[col] ?? null));
+    if (keep === 'last' || !keptIndexes.has(key)) keptIndexes.set(key, index);
+  });
+
+  const indexes = new Set(keptIndexes.values());
+  return items.filter((_item, index) => indexes.has(index));
+}
+
+/**
+ * Limits the rows of the exection data.
+ *
+ * @param   {INodeExecutionData[]} items    - The exection data.
+ * @param   {string}               mode     - Whether to keep the first rows, the last rows or the
+ *   rows after an offset.
+ * @param   {number}               rowCount - How many rows are kept.
+ * @param   {number}               offset   - How many rows are skipped in offset mode.
+ * @returns {INodeExecutionData[]}          The limited exection data.
+ * @throws                 If mode is not head, tail or offset.
+ */
+export function limit(
+  items: INodeExecutionData[],
+  mode: 'head' | 'tail' | 'offset',
+  rowCount: number,
+  offset: number,
+): INodeExecutionData[] {
+  switch (mode) {
+    case 'head':
+      return items.slice(0, rowCount);
+    case 'tail':
+      return items.slice(Math.max(items.length - rowCount, 0));
+    case 'offset':
+      return items.slice(offset, offset + rowCount);
+    default:
+      throw new Error('head, tail or offset are valid options');
+  }
+}
+
+/**
+ * Keeps only the listed columns of the exection data.
+ *
+ * @param   {INodeExecutionData[]} items   - The exection data.
+ * @param   {string[]}             columns - The columns to keep in this order.
+ * @returns {INodeExecutionData[]}         The exection data with the listed columns, missing cells
+ *   are set to null.
+ */
+export function selectColumns(
+  items: INodeExecutionData[],
+  columns: string[],
+): INodeExecutionData[] {
+  const tableColumns = getTableColumns(items);
+  const selectedColumns = columns.filter((col) => tableColumns.includes(col));
+  let newItem: INodeExecutionData;
+  return items.map((item) => {
+    newItem = {
+      json: {},
+    };
+
+    for (const col of selectedColumns) newItem.json[col] = item.json[col] ?? null;
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+    return newItem;
+  });
+}
+
+/**
+ * Removes the listed columns of the exection data.
+ *
+ * @param   {INodeExecutionData[]} items   - The exection data.
+ * @param   {string[]}             columns - The columns to remove.
+ * @returns {INodeExecutionData[]}         The exection data without the listed columns.
+ */
+export function dropColumns(items: INodeExecutionData[], columns: string[]): INodeExecutionData[] {
+  let newItem: INodeExecutionData;
+  return items.map((item) => {
+    newItem = {
+      json: {},
+    };
+
+    for (const [col, value] of Object.entries(item.json)) {
+      if (!columns.includes(col)) newItem.json[col] = value;
+    }
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+    return newItem;
+  });
+}
+
+/**
+ * Renames the columns of the exection data.
+ *
+ * @param   {INodeExecutionData[]}           items   - The exection data.
+ * @param   {{ from: string; to: string }[]} renames - The current and the new column names.
+ * @returns {INodeExecutionData[]}                   The exection data with renamed columns.
+ */
+export function renameColumns(
+  items: INodeExecutionData[],
+  renames: { from: string; to: string }[],
+): INodeExecutionData[] {
+  const names = new Map(renames.map(({ from, to }) => [from, to]));
+  let newItem: INodeExecutionData;
+  return items.map((item) => {
+    newItem = {
+      json: {},
+    };
+
+    for (const [col, value] of Object.entries(item.json)) {
+      newItem.json[names.get(col) ?? col] = value;
+    }
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+    return newItem;
+  });
+}
+
+/**
+ * Renames the columns of the exection data by a regular expression.
+ *
+ * @param   {INodeExecutionData[]} items       - The exection data.
+ * @param   {string}               pattern     - The regular expression to search for.
+ * @param   {string}               replacement - The replacement, can reference groups like "$1".
+ * @returns {INodeExecutionData[]}             The exection data with renamed columns.
+ */
+export function renameColumnsByRegex(
+  items: INodeExecutionData[],
+  pattern: string,
+  replacement: string,
+): INodeExecutionData[] {
+  const regex = new RegExp(pattern, 'g');
+  return renameColumns(
+    items,
+    getTableColumns(items).map((col) => ({ from: col, to: col.replace(regex, replacement) })),
+  );
+}
+
+/**
+ * Reorders the columns of the exection data.
+ *
+ * @param   {INodeExecutionData[]} items   - The exection data.
+ * @param   {string[]}             columns - The columns in the new order, "*" stands for all other
+ *   columns which are otherwise appended.
+ * @returns {INodeExecutionData[]}         The exection data with reordered columns.
+ */
+export function reorderColumns(
+  items: INodeExecutionData[],
+  columns: string[],
+): INodeExecutionData[] {
+  const tableColumns = getTableColumns(items);
+  const restColumns = tableColumns.filter((col) => !columns.includes(col));
+  const order = (columns.includes('*') ? columns : [...columns, '*'])
+    .flatMap((col) => (col === '*' ? restColumns : [col]))
+    .filter((col) => tableColumns.includes(col));
+
+  let newItem: INodeExecutionData;
+  return items.map((item) => {
+    newItem = {
+      json: {},
+    };
+
+    for (const col of order) {
+      if (item.json[col] !== undefined) newItem.json[col] = item.json[col];
+    }
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+    return newItem;
+  });
+}
+
+/**
+ * Adds a column to the exection data from a template.
+ *
+ * @param   {INodeExecutionData[]} items    - The exection data.
+ * @param   {string}               column   - The name of the new column.
+ * @param   {string}               template - The template, "{name}" is replaced by the value of the
+ *   column name or path of the same row.
+ * @returns {INodeExecutionData[]}          The exection data with the new column.
+ */
+export function addColumn(
+  items: INodeExecutionData[],
+  column: string,
+  template: string,
+): INodeExecutionData[] {
+  const placeholder = /^\{([^{}]+)\}$/.exec(template);
+  let newItem: INodeExecutionData;
+  return items.map((item) => {
+    newItem = {
+      json: {},
+    };
+
+    Object.assign(newItem.json, item.json);
+    newItem.json[column] =
+      placeholder !== null
+        ? (get(item.json, placeholder[1]) as IDataObject) ?? null
+        : template.replace(/\{([^{}]+)\}/g, (_match, path: string) =>
+            cellToString(get(item.json, path)),
+          );
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+    return newItem;
+  });
+}
+
+/**
+ * Splits delimited text into rows and fields.
+ *
+ * @param   {string}     text      - The delimited text.
+ * @param   {string}     delimiter - The delimiter between fields.
+ * @param   {string}     quote     - The character which encloses fields.
+ * @param   {string}     escape    - The character which escapes a quote in an enclosed field.
+ * @param   {number}     limit     - The maximum number of rows to split.
+ * @returns {string[][]}           The rows with their fields.
+ */
+function splitDelimited(
+  text: string,
+  delimiter: string,
+  quote: string,
+  escape: string,
+  limit = Infinity,
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let fieldStarted = false;
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (quoted) {
+      if (char === escape && escape !== quote && index + 1 < text.length) {
+        field += text[index + 1];
+        index += 2;
+      } else if (char === quote && escape === quote && text[index + 1] === quote) {
+        field += quote;
+        index += 2;
+      } else {
+        if (char === quote) quoted = false;
+        else field += char;
+        index++;
+      }
+    } else if (char === quote && !fieldStarted) {
+      quoted = true;
+      fieldStarted = true;
+      index++;
+    } else if (text.startsWith(delimiter, index)) {
+      row.push(field);
+      field = '';
+      fieldStarted = false;
+      index += delimiter.length;
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      if (row.length > 1 || row[0] !== '') rows.push(row);
+      if (rows.length >= limit) return rows;
+      row = [];
+      field = '';
+      fieldStarted = false;
+      index += char === '\r' && text[index + 1] === '\n' ? 2 : 1;
+    } else {
+      field += char;
+      fieldStarted = true;
+      index++;
+    }
+  }
+
+  if (fieldStarted || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Detects the delimiter of delimited text by the first row.
+ *
+ * @param   {string} text   - The delimited text.
+ * @param   {string} quote  - The character which encloses fields.
+ * @param   {string} escape - The character which escapes a quote in an enclosed field.
+ * @returns {string}        The delimiter which splits the first row into the most fields.
+ */
+function detectDelimiter(text: string, quote: string, escape: string): string {
+  let bestDelimiter = ',';
+  let bestLength = 0;
+  for (const delimiter of [',', ';', '\t', '|']) {
+    const length = splitDelimited(text, delimiter, quote, escape, 1)[0]?.length ?? 0;
+    if (length > bestLength) {
+      bestDelimiter = delimiter;
+      bestLength = length;
+    }
+  }
+  return bestDelimiter;
+}
+
+/**
+ * Parses CSV or other delimited text into exection data.
+ *
+ * @param   {string}               text             - The delimited text.
+ * @param   {string}               delimiter        - The delimiter between fields, detected if
+ *   empty.
+ * @param   {string}               quote            - The character which encloses fields.
+ * @param   {string}               escape           - The character which escapes a quote in an
+ *   enclosed field.
+ * @param   {boolean}              firstRowIsHeader - Whether the first row contains the column
+ *   names.
+ * @returns {INodeExecutionData[]}                  The parsed exection data.
+ */
+export function parseCsv(
+  text: string,
+  delimiter: string,
+  quote: string,
+  escape: string,
+  firstRowIsHeader: boolean,
+): INodeExecutionData[] {
+  if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+  const rows = splitDelimited(
+    text,
+    delimiter === '' ? detectDelimiter(text, quote, escape) : delimiter,
+    quote,
+    escape,
+  );
+  const items: INodeExecutionData[] = rows.map((row) => ({ json: { ...row } }));
+  return firstRowIsHeader ? promoteHeader(items) : items;
+}
+
+/**
+ * Formats a date with the tokens YYYY, MM, DD, HH, mm and ss in UTC.
+ *
+ * @param   {Date}   date   - The date.
+ * @param   {string} format - The format like "YYYY-MM-DD HH:mm:ss".
+ * @returns {string}        The formatted date.
+ */
+function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const tokens: { [token: string]: string } = {
+    YYYY: date.getUTCFullYear().toString(),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+/**
+ * Formats a cell value for an export.
+ *
+ * @param   {unknown} value      - The cell value.
+ * @param   {string}  dateFormat - The format for dates, dates are kept as they are if empty.
+ * @returns {string}             The formatted cell value.
+ */
+function formatCell(value: unknown, dateFormat: string): string {
+  if (dateFormat !== '') {
+    if (value instanceof Date) return formatDate(value, dateFormat);
+    if (
+      typeof value === 'string' &&
+      /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(value) &&
+      !isNaN(Date.parse(value))
+    )
+      return formatDate(new Date(value), dateFormat);
+  }
+  return cellToString(value);
+}
+
+/**
+ * Escapes text for HTML.
+ *
+ * @param   {string} text - The text.
+ * @returns {string}      The escaped text.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Exports the exection data as a file.
+ *
+ * @param   {INodeExecutionData[]} items         - The exection data.
+ * @param   {ExportFormat}         format        - The file format.
+ * @param   {boolean}              includeHeader - Whether the first row contains the column names.
+ * @param   {string}               delimiter     - The delimiter between fields for CSV.
+ * @param   {string}               dateFormat    - The format for dates, dates are kept as they are
+ *   if empty.
+ * @returns {{ data: Buffer; mimeType: string; fileExtension: string }} The file content with its
+ *   mime type and file extension.
+ * @throws                 If format is not a valid option.
+ */
+export function exportTable(
+  items: INodeExecutionData[],
+  format: ExportFormat,
+  includeHeader: boolean,
+  delimiter: string,
+  dateFormat: string,
+): { data: Buffer; mimeType: string; fileExtension: string } {
+  const columns = getTableColumns(items);
+  const rows = items.map((item) => columns.map((col) => formatCell(item.json[col], dateFormat)));
+
+  switch (format) {
+    case 'csv':
+    case 'tsv': {
+      const separator = format === 'tsv' ? '\t' : delimiter;
+      const escapeField = (field: string) =>
+        field.includes(separator) || /["\r\n]/.test(field)
+          ? `"${field.replace(/"/g, '""')}"`
+          : field;
+      const lines = (includeHeader ? [columns, ...rows] : rows).map((row) =>
+        row.map(escapeField).join(separator),
+      );
+      return {
+        data: Buffer.from(lines.join('\r\n')),
+        mimeType: format === 'tsv' ? 'text/tab-separated-values' : 'text/csv',
+        fileExtension: format,
+      };
+    }
+    case 'markdown': {
+      const escapeField = (field: string) => field.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+      const lines = [
+        `| ${columns.map(escapeField).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows.map((row) => `| ${row.map(escapeField).join(' | ')} |`),
+      ];
+      return {
+        data: Buffer.from(lines.join('\n')),
+        mimeType: 'text/markdown',
+        fileExtension: 'md',
+      };
+    }
+    case 'html': {
+      const lines = ['<table>'];
+      if (includeHeader)
+        lines.push(
+          `<thead><tr>${columns.map((col) => `<th>${escapeHtml(col)}</th>`).join('')}</tr></thead>`,
+        );
+      lines.push('<tbody>');
+      for (const row of rows)
+        lines.push(`<tr>${row.map((field) => `<td>${escapeHtml(field)}</td>`).join('')}</tr>`);
+      lines.push('</tbody>', '</table>');
+      return { data: Buffer.from(lines.join('\n')), mimeType: 'text/html', fileExtension: 'html' };
+    }
+    case 'jsonl':
+      return {
+        data: Buffer.from(items.map((item) => JSON.stringify(item.json)).join('\n')),
+        mimeType: 'application/x-ndjson',
+        fileExtension: 'jsonl',
+      };
+    case 'xlsx': {
+      const cells = items.map((item) =>
+        columns.map((col) => {
+          const value = item.json[col];
+          if (value === null || value === undefined) return null;
+          return typeof value === 'number' || typeof value === 'boolean'
+            ? value
+            : formatCell(value, dateFormat);
+        }),
+      );
+      const workbook = xlsxUtils.book_new();
+      xlsxUtils.book_append_sheet(
+        workbook,
+        xlsxUtils.aoa_to_sheet(includeHeader ? [columns, ...cells] : cells),
+        'Sheet1',
+      );
+      return {
+        data: xlsxWrite(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer,
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        fileExtension: 'xlsx',
+      };
+    }
+    default:
+      throw new Error('csv, tsv, markdown, html, jsonl or xlsx are valid options');
+  }
+}
+
+/**
+ * Parses a date with the tokens YYYY, MM, DD, HH, mm and ss in UTC.
+ *
+ * @param   {string}           value  - The date text.
+ * @param   {string}           format - The format like "DD.MM.YYYY".
+ * @returns {Date | undefined}        The date or undefined if the text does not match the format.
+ */
+function parseDate(value: string, format: string): Date | undefined {
+  const tokens: string[] = [];
+  const pattern = format
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => {
+      tokens.push(token);
+      return token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+    });
+  const match = new RegExp(`^${pattern}$`).exec(value.trim());
+  if (match === null) return undefined;
+
+  const parts: { [token: string]: number } = { YYYY: 1970, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0 };
+  tokens.forEach((token, index) => (parts[token] = parseInt(match[index + 1])));
+  const date = new Date(Date.UTC(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm, parts.ss));
+  return date.getUTCMonth() === parts.MM - 1 && date.getUTCDate() === parts.DD ? date : undefined;
+}
+
+/**
+ * Parses an ISO-like date like "2024-01-31" or "2024-01-31T12:00:00Z".
+ *
+ * @param   {string}           value - The date text.
+ * @returns {Date | undefined}       The date or undefined if the text is not an ISO-like date.
+ */
+function parseIsoDate(value: string): Date | undefined {
+  const text = value.trim();
+  if (!/^\d{4}-\d{2}-\d{2}/.test(text)) return undefined;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Gets the decimal and the thousands separator of a locale.
+ *
+ * @param   {string}                                  locale - The locale like "de-DE".
+ * @returns {{ decimal: string; thousands: string }}         The separators.
+ */
+function getNumberSeparators(locale: string): { decimal: string; thousands: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+    thousands: parts.find((part) => part.type === 'group')?.value ?? ',',
+  };
+}
+
+/**
+ * Converts a cell value into a type.
+ *
+ * @param   {unknown}           value   - The cell value.
+ * @param   {ColumnType}        type    - The type to convert to.
+ * @param   {ConversionOptions} options - How numbers and dates are parsed.
+ * @returns {unknown}                   The converted value or undefined if the conversion failed.
+ */
+function convertValue(value: unknown, type: ColumnType, options: ConversionOptions): unknown {
+  if (value === null) return null;
+  if (value === '' && type !== 'string') return null;
+
+  switch (type) {
+    case 'number': {
+      if (typeof value === 'number') return value;
+      if (typeof value !== 'string') return undefined;
+      let text = value.trim().replace(/\s/g, '');
+      if (options.numberLocale !== '') {
+        const { decimal, thousands } = getNumberSeparators(options.numberLocale);
+        const [integer, ...fraction] = text.split(decimal);
+        const groups = integer.split(thousands);
+        if (fraction.length > 1 || groups.slice(1).some((group) => group.length !== 3))
+          return undefined;
+        text = groups.join('') + (fraction.length > 0 ? `.${fraction[0]}` : '');
+      }
+      return toNumber(text);
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      if (value === 1 || value === 0) return value === 1;
+      const text = cellToString(value).trim().toLowerCase();
+      if (['true', 'yes', '1'].includes(text)) return true;
+      if (['false', 'no', '0'].includes(text)) return false;
+      return undefined;
+    }
+    case 'date': {
+      let date: Date | undefined;
+      if (value instanceof Date) date = value;
+      else if (typeof value === 'number') date = new Date(value);
+      else if (typeof value === 'string')
+        date =
+          options.dateFormat !== '' ? parseDate(value, options.dateFormat) : parseIsoDate(value);
+      return date === undefined || isNaN(date.getTime()) ? undefined : date.toISOString();
+    }
+    case 'json':
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch (error) {
+        return undefined;
+      }
+    case 'string':
+      return cellToString(value);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Infers the type of a column by sampled cell values.
+ *
+ * @param   {unknown[]}         values  - The sampled cell values.
+ * @param   {ConversionOptions} options - How numbers and dates are parsed.
+ * @returns {ColumnType}                The first type in the order date, number, boolean, JSON
+ *   and string which can convert all values.
+ */
+function inferType(values: unknown[], options: ConversionOptions): ColumnType {
+  const samples = values.filter((value) => !isEmptyCell(value));
+  if (samples.length === 0) return 'string';
+  const matches = (check: (value: unknown) => boolean) => samples.every(check);
+
+  if (
+    matches(
+      (value) =>
+        value instanceof Date ||
+        (typeof value === 'string' &&
+          (options.dateFormat !== ''
+            ? parseDate(value, options.dateFormat) !== undefined
+            : parseIsoDate(value) !== undefined)),
+    )
+  )
+    return 'date';
+  if (matches((value) => convertValue(value, 'number', options) !== undefined)) return 'number';
+  if (
+    matches(
+      (value) => typeof value === 'boolean' || /^(true|false)$/i.test(cellToString(value).trim()),
+    )
+  )
+    return 'boolean';
+  if (
+    matches(
+      (value) =>
+        typeof value === 'object' ||
+        (/^\s*[[{]/.test(cellToString(value)) &&
+          convertValue(value, 'json', options) !== undefined),
+    )
+  )
+    return 'json';
+  return 'string';
+}
+
+/**
+ * Infers the types of the columns of the exection data.
+ *
+ * @param   {INodeExecutionData[]}           items      - The exection data.
+ * @param   {number}                         sampleSize - How many rows are sampled, 0 for all
+ *   rows.
+ * @param   {ConversionOptions}              options    - How numbers and dates are parsed.
+ * @returns {{ column: string; type: ColumnType }[]}    The inferred type of each column.
+ */
+export function inferSchema(
+  items: INodeExecutionData[],
+  sampleSize: number,
+  options: ConversionOptions,
+): { column: string; type: ColumnType }[] {
+  const samples = sampleSize > 0 ? items.slice(0, sampleSize) : items;
+  return getTableColumns(items).map((column) => ({
+    column,
+    type: inferType(
+      samples.map((item) => item.json[column]),
+      options,
+    ),
+  }));
+}
+
+/**
+ * Converts the columns of the exection data into types.
+ *
+ * @param   {INodeExecutionData[]}                   items   - The exection data.
+ * @param   {{ column: string; type: ColumnType }[]} schema  - The type of each column.
+ * @param   {ConversionOptions}                      options - How numbers and dates are parsed
+ *   and how conversion errors are handled.
+ * @returns {INodeExecutionData[]}                           The converted exection data.
+ * @throws                                   If a value can not be converted and onError is fail.
+ */
+export function convertTypes(
+  items: INodeExecutionData[],
+  schema: { column: string; type: ColumnType }[],
+  options: ConversionOptions,
+): INodeExecutionData[] {
+  let newItem: INodeExecutionData;
+  return items.map((item) => {
+    newItem = {
+      json: {},
+    };
+
+    Object.assign(newItem.json, item.json);
+    for (const { column, type } of schema) {
+      const value = item.json[column];
+      if (value === undefined) continue;
+      const converted = convertValue(value, type, options);
+      if (converted !== undefined) newItem.json[column] = converted as IDataObject;
+      else if (options.onError === 'null') newItem.json[column] = null;
+      else if (options.onError === 'fail')
+        throw new Error(`The value "${cellToString(value)}" of "${column}" is not a ${type}!`);
+    }
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+    return newItem;
+  });
+}
 
-      if (rowData.binary !== undefined) {
-        newItem.binary = {};
-        Object.assign(newItem.binary, rowData.binary);
+/**
+ * Validates the rows of the exection data by rules.
+ *
+ * @param   {INodeExecutionData[]}   items - The exection data.
+ * @param   {ValidationRule[]}       rules - The validation rules.
+ * @returns {INodeExecutionData[][]}       The valid rows and the invalid rows with an "errors"
+ *   column which names the column and the rule of each error.
+ * @throws                   If a rule is not a valid option.
+ */
+export function validate(
+  items: INodeExecutionData[],
+  rules: ValidationRule[],
+): [INodeExecutionData[], INodeExecutionData[]] {
+  const conversionOptions: ConversionOptions = {
+    numberLocale: '',
+    dateFormat: '',
+    onError: 'null',
+  };
+  const duplicates = rules
+    .filter(({ rule }) => rule === 'unique')
+    .map(({ column }) => {
+      const counts = new Map<string, number>();
+      for (const item of items) {
+        if (isEmptyCell(item.json[column])) continue;
+        const key = JSON.stringify(item.json[column]);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
       }
-      return newItem;
+      return { column, counts };
     });
-  } else {
-    const newItem: INodeExecutionData = {
+
+  const isValid = (cell: unknown, rule: ValidationRule): boolean => {
+    if (rule.rule === 'required') return !isEmptyCell(cell);
+    if (isEmptyCell(cell)) return true;
+    switch (rule.rule) {
+      case 'type':
+        return convertValue(cell, rule.type, conversionOptions) !== undefined;
+      case 'allowedValues':
+        return rule.value
+          .split(',')
+          .map((value) => value.trim())
+          .includes(cellToString(cell));
+      case 'pattern':
+        return new RegExp(rule.value).test(cellToString(cell));
+      case 'unique':
+        return (
+          (duplicates
+            .find(({ column }) => column === rule.column)
+            ?.counts.get(JSON.stringify(cell)) ?? 0) <= 1
+        );
+      case 'min':
+        return toNumber(cell) !== undefined && compareCells(cell, rule.value) >= 0;
+      case 'max':
+        return toNumber(cell) !== undefined && compareCells(cell, rule.value) <= 0;
+      default:
+        throw new Error(
+          'required, type, allowedValues, pattern, unique, min or max are valid options',
+        );
+    }
+  };
+
+  const validItems: INodeExecutionData[] = [];
+  const invalidItems: INodeExecutionData[] = [];
+  let newItem: INodeExecutionData;
+  for (const item of items) {
+    const errors = rules
+      .filter((rule) => !isValid(item.json[rule.column], rule))
+      .map((rule) => ({ column: rule.column, rule: rule.rule }));
+    if (errors.length === 0) {
+      validItems.push(item);
+      continue;
+    }
+
+    newItem = {
       json: {},
     };
-    if (expand) Object.assign(newItem.json, rowData.json);
-    if (typeof colData === 'object') Object.assign(newItem.json, colData);
-    else newItem.json[col] = colData;
 
-    if (rowData.binary !== undefined) {
+    Object.assign(newItem.json, item.json);
+    newItem.json.errors = errors;
+
+    if (item.binary !== undefined) {
       newItem.binary = {};
-      Object.assign(newItem.binary, rowData.binary);
+      Object.assign(newItem.binary, item.binary);
     }
-    return [newItem];
+    pairItem(newItem, [item]);
+    invalidItems.push(newItem);
   }
+  return [validItems, invalidItems];
 }
 
 /**
- * Navigates in a column of the exection data.
+ * Computes window functions over ordered partitions of the exection data.
  *
- * @param   {INodeExecutionData[]}      items            - The exection data.
- * @param   {(index: number) => string} colByIndex       - A function that returns the column name
- *   for an index.
- * @param   {Function}                  expandbyIndex    - A function that returns for an index
- *   whether to extend the data with the previous data.
- * @param   {Function}                  loopArrayByIndex - A function that returns for an index
- *   whether the data, if they represent an array, are automatically processed as rows.
- * @returns {INodeExecutionData[]}                       The navigated exection data.
+ * @param   {INodeExecutionData[]} items            - The exection data.
+ * @param   {string[]}             partitionColumns - The columns to partition by.
+ * @param   {SortKey | undefined}  orderBy          - The order of the rows in each partition, the
+ *   original order if undefined where every row ranks on its own.
+ * @param   {WindowFunction[]}     functions        - The window functions.
+ * @returns {INodeExecutionData[]}                  The exection data in the original order with
+ *   a new column for each window function.
+ * @throws                 If a function is not a valid option.
  */
-export function navigateIntoCol(
+export function applyWindowFunctions(
   items: INodeExecutionData[],
-  colByIndex: (index: number) => string,
-  expandbyIndex: (index: number) => boolean,
-  loopArrayByIndex: (index: number) => boolean,
+  partitionColumns: string[],
+  orderBy: SortKey | undefined,
+  functions: WindowFunction[],
 ): INodeExecutionData[] {
-  let rowData: INodeExecutionData;
-  let colData: unknown;
   let newItem: INodeExecutionData;
-  const newItems: INodeExecutionData[] = [];
-  for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
-    const loopArray = loopArrayByIndex(itemIndex);
-    const expand = expandbyIndex(itemIndex);
-    const col = colByIndex(itemIndex);
+  const newItems: INodeExecutionData[] = items.map((item) => {
+    newItem = {
+      json: {},
+    };
 
-    rowData = items[itemIndex];
-    colData = rowData.json[col] as unknown;
-    if (colData === undefined) {
-      colData = rowData.json[parseInt(col)] as unknown;
+    Object.assign(newItem.json, item.json);
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
     }
+    pairItem(newItem, [item]);
+    return newItem;
+  });
 
-    if (loopArray && Array.isArray(colData)) {
-      for (const item of colData) {
-        newItem = {
-          json: {},
-        };
+  const partitions = new Map<string, INodeExecutionData[]>();
+  for (const item of newItems) {
+    const key = JSON.stringify(partitionColumns.map((col) => item.json[col] ?? null));
+    const partition = partitions.get(key);
+    if (partition === undefined) partitions.set(key, [item]);
+    else partition.push(item);
+  }
 
-        if (expand) Object.assign(newItem.json, rowData.json);
-        if (typeof item === 'object') Object.assign(newItem.json, item);
-        else newItem.json[col] = item as IDataObject;
+  for (const unorderedPartition of partitions.values()) {
+    const partition =
+      orderBy !== undefined ? sort(unorderedPartition, [orderBy]) : unorderedPartition;
+    const orderValues = partition.map((item, index) =>
+      orderBy !== undefined ? JSON.stringify(item.json[orderBy.column] ?? null) : index,
+    );
 
-        if (rowData.binary !== undefined) {
-          newItem.binary = {};
-          Object.assign(newItem.binary, rowData.binary);
-        }
-        newItems.push(newItem);
-      }
-    } else {
-      newItem = {
-        json: {},
-      };
+    for (const windowFunction of functions) {
+      const values = partition.map((item) => toNumber(item.json[windowFunction.column]));
+      let rank = 0;
+      let denseRank = 0;
+      let sum = 0;
+      let count = 0;
+      const total = values.reduce((total: number, value) => total + (value ?? 0), 0);
 
-      if (expand) Object.assign(newItem.json, rowData.json);
-      if (typeof colData === 'object') Object.assign(newItem.json, colData);
-      else newItem.json[col] = colData as IDataObject;
+      partition.forEach((item, index) => {
+        let result: unknown;
+        const peer = index > 0 && orderValues[index] === orderValues[index - 1];
+        if (!peer) {
+          rank = index + 1;
+          denseRank++;
+        }
+        if (values[index] !== undefined) {
+          sum += values[index] as number;
+          count++;
+        }
 
-      if (rowData.binary !== undefined) {
-        newItem.binary = {};
-        Object.assign(newItem.binary, rowData.binary);
-      }
-      newItems.push(newItem);
+        switch (windowFunction.function) {
+          case 'rowNumber':
+            result = index + 1;
+            break;
+          case 'rank':
+            result = rank;
+            break;
+          case 'denseRank':
+            result = denseRank;
+            break;
+          case 'runningSum':
+            result = sum;
+            break;
+          case 'runningAverage':
+            result = count > 0 ? sum / count : null;
+            break;
+          case 'lag':
+          case 'lead': {
+            const target =
+              windowFunction.function === 'lag'
+                ? index - windowFunction.offset
+                : index + windowFunction.offset;
+            result =
+              target >= 0 && target < partition.length
+                ? partition[target].json[windowFunction.column] ?? null
+                : null;
+            break;
+          }
+          case 'movingAverage': {
+            const windowValues = values
+              .slice(Math.max(index - windowFunction.windowSize + 1, 0), index + 1)
+              .filter((value): value is number => value !== undefined);
+            result =
+              windowValues.length > 0
+                ? windowValues.reduce((sum, value) => sum + value, 0) / windowValues.length
+                : null;
+            break;
+          }
+          case 'percentOfTotal':
+            result =
+              values[index] !== undefined && total !== 0
+                ? ((values[index] as number) / total) * 100
+                : null;
+            break;
+          default:
+            throw new Error(
+              'rowNumber, rank, denseRank, runningSum, runningAverage, lag, lead, movingAverage or percentOfTotal are valid options',
+            );
+        }
+        setCopied(item.json, windowFunction.destinationKey, result);
+      });
     }
   }
   return newItems;
 }
 
 /**
- * Navigates in a row of the exection data.
+ * Splits the values of a column of the exection data into multiple columns or rows.
  *
- * @param   {INodeExecutionData[]} items            - The exection data.
- * @param   {number}               row              - The row number.
- * @param   {string}               col              - The column name.
- * @param   {Function}             expandbyIndex    - A function that returns for an index whether
- *   to extend the data with the previous data.
- * @param   {Function}             loopArrayByIndex - A function that returns for an index whether
- *   the data, if they represent an array, are automatically processed as rows.
- * @returns {INodeExecutionData[]}                  The navigated exection data.
- * @throws                   If row out of bounds.
+ * @param   {INodeExecutionData[]} items              - The exection data.
+ * @param   {string}               column             - The column to split.
+ * @param   {string}               separator          - The delimiter or regular expression.
+ * @param   {boolean}              useRegex           - Whether the separator is a regular
+ *   expression.
+ * @param   {string}               splitInto          - Whether the parts become columns or rows.
+ * @param   {string[]}             destinationColumns - The names of the new columns, the column
+ *   name with the part number if missing.
+ * @returns {INodeExecutionData[]}                    The exection data with split values.
  */
-export function navigateIntoRow(
+export function splitColumn(
   items: INodeExecutionData[],
-  row: number,
-  col: string,
-  expandbyIndex: (index: number) => boolean,
-  loopArrayByIndex: (index: number) => boolean,
+  column: string,
+  separator: string,
+  useRegex: boolean,
+  splitInto: 'columns' | 'rows',
+  destinationColumns: string[],
 ): INodeExecutionData[] {
-  if (row < 0) throw new Error('The row has to be set to at least 0 or higher!');
-  if (items.length - 1 < row) throw new Error('The row index is higher then rows length!');
-
-  const loopArray = loopArrayByIndex(row);
-  const expand = expandbyIndex(row);
-
-  const rowData: INodeExecutionData = items[row];
+  const splitter = useRegex ? new RegExp(separator) : separator;
+  let newItem: INodeExecutionData;
   const newItems: INodeExecutionData[] = [];
 
-  let newItem: INodeExecutionData;
-  for (const [col, colData] of Object.entries(rowData.json)) {
-    if (loopArray && Array.isArray(colData)) {
-      for (const item of colData) {
+  for (const item of items) {
+    const value = item.json[column];
+    const parts = isEmptyCell(value) ? [] : cellToString(value).split(splitter);
+
+    if (splitInto === 'rows') {
+      for (const part of parts.length > 0 ? parts : [value]) {
         newItem = {
           json: {},
         };
 
-        if (expand)
-          Object.assign(
-            newItem.json,
-            items.map((rowItem) => rowItem.json[col]),
-          );
-        if (typeof item === 'object') Object.assign(newItem.json, item);
-        else newItem.json[col] = item;
+        Object.assign(newItem.json, item.json);
+        newItem.json[column] = part as IDataObject;
 
-        if (rowData.binary !== undefined) {
+        if (item.binary !== undefined) {
           newItem.binary = {};
-          Object.assign(newItem.binary, rowData.binary);
+          Object.assign(newItem.binary, item.binary);
         }
+        pairItem(newItem, [item]);
         newItems.push(newItem);
       }
     } else {
@@ -221,18 +2212,18 @@ export function navigateIntoRow(
         json: {},
       };
 
-      if (expand)
-        Object.assign(
-          newItem.json,
-          items.map((rowItem) => rowItem.json[col]),
-        );
-      if (typeof colData === 'object') Object.assign(newItem.json, colData);
-      else newItem.json[col] = colData;
+      for (const [col, cell] of Object.entries(item.json)) {
+        if (col !== column) newItem.json[col] = cell;
+      }
+      parts.forEach((part, index) => {
+        newItem.json[destinationColumns[index] ?? `${column}_${index + 1}`] = part;
+      });
 
-      if (rowData.binary !== undefined) {
+      if (item.binary !== undefined) {
         newItem.binary = {};
-        Object.assign(newItem.binary, rowData.binary);
+        Object.assign(newItem.binary, item.binary);
       }
+      pairItem(newItem, [item]);
       newItems.push(newItem);
     }
   }
@@ -240,123 +2231,491 @@ export function navigateIntoRow(
 }
 
 /**
- * Demotes the header the exection data.
+ * Combines the values of multiple columns of the exection data into one column.
  *
- * @param   {INodeExecutionData[]} items - The exection data.
- * @returns {INodeExecutionData[]}       The exection data with demoted header.
+ * @param   {INodeExecutionData[]} items             - The exection data.
+ * @param   {string[]}             columns           - The columns to combine.
+ * @param   {string}               separator         - The separator between the values.
+ * @param   {string}               destinationColumn - The name of the combined column.
+ * @returns {INodeExecutionData[]}                   The exection data with the combined column.
  */
-export function demoteHeader(items: INodeExecutionData[]): INodeExecutionData[] {
-  if (items.length === 0) return items;
-  const keys = getTableColumns(items);
+export function combineColumns(
+  items: INodeExecutionData[],
+  columns: string[],
+  separator: string,
+  destinationColumn: string,
+): INodeExecutionData[] {
   let newItem: INodeExecutionData;
+  return items.map((item) => {
+    newItem = {
+      json: {},
+    };
+
+    Object.assign(newItem.json, item.json);
+    newItem.json[destinationColumn] = aggregate(
+      columns.map((col) => item.json[col]),
+      'concatenate',
+      separator,
+    ) as string;
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+    return newItem;
+  });
+}
+
+/**
+ * Collapses rows of the exection data with the same key columns into one row.
+ *
+ * @param   {INodeExecutionData[]} items        - The exection data.
+ * @param   {string[]}             keyColumns   - The columns which identify rows to collapse.
+ * @param   {string}               collapseInto - Whether the other columns become arrays or
+ *   joined strings.
+ * @param   {string}               separator    - The separator between joined values.
+ * @returns {INodeExecutionData[]}              A single element for each key.
+ */
+export function collapseRows(
+  items: INodeExecutionData[],
+  keyColumns: string[],
+  collapseInto: 'array' | 'joined',
+  separator: string,
+): INodeExecutionData[] {
+  return groupBy(
+    items,
+    keyColumns,
+    getTableColumns(items)
+      .filter((col) => !keyColumns.includes(col))
+      .map((col) => ({
+        aggregation: collapseInto === 'array' ? 'list' : 'concatenate',
+        column: col,
+        destinationKey: col,
+        separator,
+      })),
+  );
+}
+
+/**
+ * Fills empty cells of the exection data.
+ *
+ * @param   {INodeExecutionData[]}        items       - The exection data.
+ * @param   {string[]}                    columns     - The columns to fill, all columns if empty.
+ * @param   {string}                      method      - Whether to fill with the previous value,
+ *   the next value or a value of the column.
+ * @param   {(column: string) => unknown} fillValue   - A function that returns the value for a
+ *   column.
+ * @param   {string[]}                    emptyValues - Which cells count as empty.
+ * @param   {boolean}                     normalize   - Whether every row gets all columns of the
+ *   table, remaining missing cells are set to null.
+ * @returns {INodeExecutionData[]}                    The filled exection data.
+ */
+export function fill(
+  items: INodeExecutionData[],
+  columns: string[],
+  method: 'down' | 'up' | 'value',
+  fillValue: (column: string) => unknown,
+  emptyValues: Array<'missing' | 'null' | 'emptyString'>,
+  normalize: boolean,
+): INodeExecutionData[] {
+  const tableColumns = getTableColumns(items);
+  const fillColumns = columns.length > 0 ? columns : tableColumns;
+  const isFillable = (value: unknown) => {
+    if (value === undefined) return emptyValues.includes('missing');
+    if (value === null) return emptyValues.includes('null');
+    if (value === '') return emptyValues.includes('emptyString');
+    return false;
+  };
 
+  let newItem: INodeExecutionData;
   const newItems: INodeExecutionData[] = items.map((item) => {
     newItem = {
       json: {},
     };
 
+    if (normalize) for (const col of tableColumns) newItem.json[col] = item.json[col] ?? null;
+    Object.assign(newItem.json, item.json);
+
     if (item.binary !== undefined) {
       newItem.binary = {};
       Object.assign(newItem.binary, item.binary);
     }
-
-    keys.forEach((key, index) => {
-      newItem.json[index] = item.json[key];
-    });
+    pairItem(newItem, [item]);
     return newItem;
   });
-  newItems.unshift({ json: { ...keys } });
+
+  for (const col of fillColumns) {
+    let previous: unknown = undefined;
+    const orderedItems = method === 'up' ? [...newItems].reverse() : newItems;
+    for (const [index, item] of orderedItems.entries()) {
+      const value = items[method === 'up' ? items.length - 1 - index : index].json[col];
+      if (!isFillable(value)) {
+        previous = value;
+      } else if (method === 'value') {
+        item.json[col] = fillValue(col) as IDataObject;
+      } else if (previous !== undefined) {
+        item.json[col] = previous as IDataObject;
+      }
+    }
+  }
   return newItems;
 }
 
 /**
- * Promotes the header the exection data.
+ * Splits the rows of the exection data into outputs by the values of a column.
  *
- * @param   {INodeExecutionData[]} items - The exection data.
- * @returns {INodeExecutionData[]}       The exection data with promoted header.
+ * @param   {INodeExecutionData[]}   items       - The exection data.
+ * @param   {string}                 column      - The column to check.
+ * @param   {SplitRule[]}            rules       - The rules, the first matching rule decides the
+ *   output.
+ * @param   {number}                 outputCount - How many outputs exist.
+ * @returns {INodeExecutionData[][]}             The rows for each output, rows without a matching
+ *   rule are in the first output.
+ * @throws                   If an output of a rule does not exist.
  */
-export function promoteHeader(items: INodeExecutionData[]): INodeExecutionData[] {
-  const shiftedItems = [...items];
-  const header = shiftedItems.shift();
-  if (header === undefined) return items;
+export function splitByValue(
+  items: INodeExecutionData[],
+  column: string,
+  rules: SplitRule[],
+  outputCount: number,
+): INodeExecutionData[][] {
+  if (rules.some((rule) => rule.output < 0 || rule.output >= outputCount))
+    throw new Error(`The output has to be between 0 and ${outputCount - 1}!`);
 
-  const keys = getTableColumns(items);
+  const outputs: INodeExecutionData[][] = Array.from({ length: outputCount }, () => []);
+  for (const item of items) {
+    const rule = rules.find(({ operation, value }) =>
+      matchesCondition(item, { column, operation, value }),
+    );
+    outputs[rule?.output ?? 0].push(item);
+  }
+  return outputs;
+}
 
-  let newItem: INodeExecutionData;
-  let counter;
-  let newkey;
-  const headerValues = Object.values(header.json);
+/**
+ * Compares the exection data with a previous exection data matched by key columns.
+ *
+ * @param   {INodeExecutionData[]}                        items         - The exection data.
+ * @param   {INodeExecutionData[]}                        previousItems - The previous exection
+ *   data.
+ * @param   {string[]}                                    keys          - The key columns of the
+ *   exection data.
+ * @param   {string[]}                                    previousKeys  - The key columns of the
+ *   previous exection data.
+ * @param   {string[]}                                    columns       - The columns to compare,
+ *   all columns of both tables if empty.
+ * @param   {string}                                      statusKey     - The column to write the
+ *   status to, no status is written if empty.
+ * @param   {string}                                      changesKey    - The column to write the
+ *   before and after values of changed columns to.
+ * @returns {Record<CompareStatus, INodeExecutionData[]>}               The rows for each status.
+ * @throws                                        If the key columns do not have the same length.
+ */
+export function compare(
+  items: INodeExecutionData[],
+  previousItems: INodeExecutionData[],
+  keys: string[],
+  previousKeys: string[],
+  columns: string[],
+  statusKey: string,
+  changesKey: string,
+): Record<CompareStatus, INodeExecutionData[]> {
+  if (keys.length === 0) throw new Error('At least one key column has to be set!');
+  if (keys.length !== previousKeys.length)
+    throw new Error('The key columns of both tables need to have the same length!');
 
-  return shiftedItems.map((item) => {
-    newItem = {
+  const compareColumns =
+    columns.length > 0
+      ? columns
+      : getTableColumns([...items, ...previousItems]).filter(
+          (col) => !keys.includes(col) && !previousKeys.includes(col),
+        );
+
+  const previousIndex = new Map<string, INodeExecutionData[]>();
+  for (const item of previousItems) {
+    const key = JSON.stringify(previousKeys.map((col) => item.json[col] ?? null));
+    const matches = previousIndex.get(key);
+    if (matches === undefined) previousIndex.set(key, [item]);
+    else matches.push(item);
+  }
+
+  const result: Record<CompareStatus, INodeExecutionData[]> = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: [],
+  };
+  const addItem = (status: CompareStatus, item: INodeExecutionData, changes?: IDataObject) => {
+    const newItem: INodeExecutionData = {
       json: {},
     };
-
+    Object.assign(newItem.json, item.json);
+    if (statusKey !== '') setCopied(newItem.json, statusKey, status);
+    if (changes !== undefined) setCopied(newItem.json, changesKey, changes);
     if (item.binary !== undefined) {
       newItem.binary = {};
       Object.assign(newItem.binary, item.binary);
     }
+    pairItem(newItem, [item]);
+    result[status].push(newItem);
+  };
 
-    for (let index = 0; index < keys.length; index++) {
-      const key = keys[index];
-      if (header.json[key])
-        newItem.json[header.json[key] as string] = item.json[key]
-          ? (item.json[key] as string)
-          : null;
-      else {
-        newkey = index.toString();
-        if (headerValues.includes(newkey)) {
-          counter = 0;
-          do {
-            newkey = `${index}_${counter}`;
-            counter++;
-          } while (headerValues.includes(newkey));
-        }
-        header.json[key] = newkey;
-        newItem.json[newkey] = item.json[key] ? (item.json[key] as string) : null;
+  for (const item of items) {
+    const matches = previousIndex.get(JSON.stringify(keys.map((col) => item.json[col] ?? null)));
+    const previous = matches?.shift();
+    if (previous === undefined) {
+      addItem('added', item);
+      continue;
+    }
+    const changes: IDataObject = {};
+    for (const col of compareColumns) {
+      const before = previous.json[col] ?? null;
+      const after = item.json[col] ?? null;
+      if (!isEqual(before, after)) changes[col] = { before, after };
+    }
+    if (Object.keys(changes).length > 0) addItem('changed', item, changes);
+    else addItem('unchanged', item);
+  }
+  for (const matches of previousIndex.values()) {
+    for (const item of matches) addItem('removed', item);
+  }
+  return result;
+}
+
+/**
+ * Profiles each column of the exection data.
+ *
+ * @param   {INodeExecutionData[]} items     - The exection data.
+ * @param   {number}               topValues - How many of the most frequent values are returned.
+ * @param   {ConversionOptions}    options   - How numbers and dates are parsed to infer the type.
+ * @returns {INodeExecutionData[]}           One row for each column with its statistics.
+ */
+export function profile(
+  items: INodeExecutionData[],
+  topValues: number,
+  options: ConversionOptions,
+): INodeExecutionData[] {
+  return getTableColumns(items).map((column) => {
+    const values = items
+      .map((item) => item.json[column])
+      .filter((value) => value !== undefined && value !== null);
+    const frequencies = new Map<string, { value: unknown; count: number }>();
+    for (const value of values) {
+      const key = JSON.stringify(value);
+      const frequency = frequencies.get(key);
+      if (frequency === undefined) frequencies.set(key, { value, count: 1 });
+      else frequency.count++;
+    }
+    const type = inferType(values, options);
+    let min: number | null = null;
+    let max: number | null = null;
+    let sum = 0;
+    let numberCount = 0;
+    let minLength: number | null = null;
+    let maxLength: number | null = null;
+    for (const value of values) {
+      if (type === 'number') {
+        const number = convertValue(value, 'number', options) as number | undefined;
+        if (number === undefined) continue;
+        if (min === null || number < min) min = number;
+        if (max === null || number > max) max = number;
+        sum += number;
+        numberCount++;
+      } else if (type === 'string') {
+        const length = cellToString(value).length;
+        if (minLength === null || length < minLength) minLength = length;
+        if (maxLength === null || length > maxLength) maxLength = length;
       }
     }
+
+    const newItem: INodeExecutionData = {
+      json: {
+        column,
+        type,
+        count: values.length,
+        nullCount: items.length - values.length,
+        distinctCount: frequencies.size,
+        mostFrequent: [...frequencies.values()]
+          .sort((a, b) => b.count - a.count)
+          .slice(0, topValues) as IDataObject[],
+        min,
+        max,
+        mean: numberCount > 0 ? sum / numberCount : null,
+        minLength,
+        maxLength,
+      },
+    };
+    pairItem(newItem, items);
     return newItem;
   });
 }
 
 /**
- * Counts based on countType rows, cols or cells.
+ * Resolves the paired items of transformed rows, which point to the rows before the
+ * transformation, to the paired items of these rows and applies a binary policy.
  *
- * @param   {INodeExecutionData[]} items          - The exection data.
- * @param   {string}               countType      - What to count.
- * @param   {string}               destinationKey - In which column name the count value should be stored.
- * @returns {INodeExecutionData[]}                A single element with the count value.
- * @throws                 If countType is not rows, cols or cells.
+ * @param   {INodeExecutionData[]}     items  - The transformed exection data.
+ * @param   {INodeExecutionData[][]}   inputs - The exection data before the transformation for
+ *   each input.
+ * @param   {BinaryPolicy | undefined} policy - Whether each row keeps the binary data of the first
+ *   row it was built from, drops it, keeps it only in the first row built from a row or merges the
+ *   binary data of all rows. If undefined the binary data of the transformation is kept.
+ * @returns {INodeExecutionData[]}            The exection data paired with the rows the rows before
+ *   the transformation were paired with.
  */
-export function count(
+export function resolvePairedItems(
   items: INodeExecutionData[],
-  countType: 'rows' | 'cols' | 'cells',
-  destinationKey: string,
+  inputs: INodeExecutionData[][],
+  policy: BinaryPolicy | undefined,
 ): INodeExecutionData[] {
-  const data: IDataObject = {};
-  switch (countType) {
-    case 'rows':
-      set(data, destinationKey, items.length);
-      break;
-    case 'cols':
-      if (items.length > 0) {
-        set(data, destinationKey, getTableColumns(items).length);
-      } else {
-        set(data, destinationKey, 0);
-      }
-      break;
-    case 'cells': {
-      const length = items.length;
-      if (length > 0) {
-        set(data, destinationKey, getTableColumns(items).length * length);
-      } else {
-        set(data, destinationKey, 0);
+  const usedBinaries = new Set<INodeExecutionData>();
+  let newItem: INodeExecutionData;
+  return items.map((item) => {
+    const sources = getPairedItems(item)
+      .map((pairedItem) => inputs[pairedItem.input ?? 0]?.[pairedItem.item])
+      .filter((source): source is INodeExecutionData => source !== undefined);
+    newItem = {
+      json: item.json,
+    };
+
+    let binary = item.binary;
+    if (policy === 'drop') binary = undefined;
+    else if (policy !== undefined && sources.length > 0) {
+      binary = undefined;
+      if (policy === 'merge') {
+        sources.forEach((source, index) => {
+          for (const [key, data] of Object.entries(source.binary ?? {})) {
+            if (binary === undefined) binary = {};
+            binary[binary[key] === undefined ? key : `${key}_${index}`] = data;
+          }
+        });
+      } else if (policy === 'keep' || !usedBinaries.has(sources[0])) {
+        binary = sources[0].binary;
+        usedBinaries.add(sources[0]);
       }
-      break;
     }
-    default:
-      throw new Error('rows, cols or cells are valid options');
+    if (binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, binary);
+    }
+
+    pairItem(newItem, sources);
+    return newItem;
+  });
+}
+
+/**
+ * Looks up the values of a column in a mapping.
+ *
+ * @param   {INodeExecutionData[]} items             - The exection data.
+ * @param   {string}               column            - The column with the keys.
+ * @param   {string}               destinationColumn - The column for the found values, the key
+ *   column is replaced if empty.
+ * @param   {[unknown, unknown][]} entries           - The keys and values of the mapping, the first
+ *   entry of duplicate keys is used.
+ * @param   {unknown}              defaultValue      - The value if a key is not found, if undefined
+ *   the key is kept when replacing and null is used when adding a column.
+ * @param   {boolean}              caseInsensitive   - Whether keys are matched case-insensitive.
+ * @returns {INodeExecutionData[]}                   The exection data with the found values.
+ */
+export function lookup(
+  items: INodeExecutionData[],
+  column: string,
+  destinationColumn: string,
+  entries: [unknown, unknown][],
+  defaultValue: unknown,
+  caseInsensitive: boolean,
+): INodeExecutionData[] {
+  const toKey = (value: unknown) =>
+    caseInsensitive ? cellToString(value).toLowerCase() : cellToString(value);
+  const mapping = new Map<string, unknown>();
+  for (const [key, value] of entries) {
+    if (!mapping.has(toKey(key))) mapping.set(toKey(key), value);
+  }
+
+  let newItem: INodeExecutionData;
+  return items.map((item) => {
+    newItem = {
+      json: {},
+    };
+
+    Object.assign(newItem.json, item.json);
+    const key = toKey(item.json[column]);
+    let value: unknown;
+    if (mapping.has(key)) value = mapping.get(key);
+    else if (defaultValue !== undefined) value = defaultValue;
+    else value = destinationColumn === '' ? item.json[column] ?? null : null;
+    newItem.json[destinationColumn === '' ? column : destinationColumn] = value as IDataObject;
+
+    if (item.binary !== undefined) {
+      newItem.binary = {};
+      Object.assign(newItem.binary, item.binary);
+    }
+    pairItem(newItem, [item]);
+    return newItem;
+  });
+}
+
+/**
+ * Runs each row through all steps before the next row, so the table is not built between the
+ * steps.
+ *
+ * @param   {INodeExecutionData[]} items - The exection data.
+ * @param   {RowStep[]}            steps - The steps, each gets a row and its index in the input of
+ *   the step and returns the resulting rows.
+ * @returns {INodeExecutionData[]}       The exection data after all steps.
+ */
+export function runRowSteps(items: INodeExecutionData[], steps: RowStep[]): INodeExecutionData[] {
+  const indexes = steps.map(() => 0);
+  const newItems: INodeExecutionData[] = [];
+  const run = (item: INodeExecutionData, step: number) => {
+    if (step === steps.length) {
+      newItems.push(item);
+      return;
+    }
+    for (const newItem of steps[step](item, indexes[step]++)) run(newItem, step + 1);
+  };
+  for (const item of items) run(item, 0);
+  return newItems;
+}
+
+/**
+ * Packs the rows of the exection data into batches, which only changes the shape of the finished
+ * rows and does not process them in chunks.
+ *
+ * @param   {INodeExecutionData[]} items     - The exection data.
+ * @param   {number}               batchSize - How many rows are in a batch.
+ * @param   {string}               batchKey  - The column to copy the rows of a batch to.
+ * @returns {INodeExecutionData[]}           One row for each batch, the binary data of the rows is
+ *   merged and duplicate keys get the index of the row as suffix.
+ */
+export function batch(
+  items: INodeExecutionData[],
+  batchSize: number,
+  batchKey: string,
+): INodeExecutionData[] {
+  const newItems: INodeExecutionData[] = [];
+  let newItem: INodeExecutionData;
+  for (let start = 0; start < items.length; start += batchSize) {
+    const batchItems = items.slice(start, start + batchSize);
+    newItem = {
+      json: {},
+    };
+
+    set(
+      newItem.json,
+      batchKey,
+      batchItems.map((item) => item.json),
+    );
+    batchItems.forEach((item, index) => {
+      for (const [key, data] of Object.entries(item.binary ?? {})) {
+        if (newItem.binary === undefined) newItem.binary = {};
+        newItem.binary[newItem.binary[key] === undefined ? key : `${key}_${index}`] = data;
+      }
+    });
+    pairItem(newItem, batchItems);
+    newItems.push(newItem);
   }
-  return [{ json: data }];
+  return newItems;
 }
@@ -1,22 +1,138 @@
+import { isPlainObject, upperFirst } from 'lodash';
 import { IExecuteFunctions } from 'n8n-core';
 import {
+  IDataObject,
   INodeExecutionData,
   INodeParameters,
+  INodePropertyOptions,
   INodeType,
   INodeTypeDescription,
+  IPairedItemData,
   NodeOperationError,
 } from 'n8n-workflow';
 
 import {
+  addColumn,
+  Aggregation,
+  applyWindowFunctions,
+  batch,
+  BinaryPolicy,
+  collapseRows,
+  ColumnType,
+  combineColumns,
+  compare,
+  CompareStatus,
+  ConversionOptions,
+  convertTypes,
   count,
   demoteHeader,
+  dropColumns,
+  ExportFormat,
+  exportTable,
+  fill,
+  filter,
+  FilterCondition,
+  FilterOperation,
+  flatten,
+  GroupAggregation,
+  groupBy,
+  HeaderOptions,
+  inferSchema,
+  join,
+  JoinBinary,
+  JoinType,
+  limit,
+  lookup,
   navigateIntoCell,
   navigateIntoCol,
   navigateIntoRow,
+  parseCsv,
+  pivot,
+  profile,
   promoteHeader,
+  removeDuplicates,
+  renameColumns,
+  renameColumnsByRegex,
+  reorderColumns,
+  resolvePairedItems,
+  RowStep,
+  runRowSteps,
+  selectColumns,
+  sort,
+  SortKey,
+  splitByValue,
+  splitColumn,
+  SplitRule,
   transpose,
+  unflatten,
+  unpivot,
+  validate,
+  ValidationRule,
+  WindowFunction,
 } from './TableTransformation.node.functions';
 
+/**
+ * Splits a comma-separated list of column names.
+ *
+ * @param   {string}   value - The comma-separated column names.
+ * @returns {string[]}       The trimmed column names without empty entries.
+ */
+function splitColumnNames(value: string): string[] {
+  return value
+    .split(',')
+    .map((col) => col.trim())
+    .filter((col) => col !== '');
+}
+
+/**
+ * The ways to handle the binary data of the rows.
+ */
+const binaryPolicyOptions: INodePropertyOptions[] = [
+  {
+    name: 'Drop',
+    value: 'drop',
+    description: 'Remove the binary data from all rows',
+  },
+  {
+    name: 'Keep',
+    value: 'keep',
+    description:
+      'Keep the binary data of the row each row was built from, rows built from multiple rows keep the binary data of the first row',
+  },
+  {
+    name: 'Keep First',
+    value: 'first',
+    description: 'Keep the binary data of a row only in the first row built from it',
+  },
+  {
+    name: 'Merge',
+    value: 'merge',
+    description:
+      'Merge the binary data of all rows each row was built from, duplicate keys get the index of the row as suffix',
+  },
+];
+
+/**
+ * The actions which aggregate rows and drop their binary data by default.
+ */
+const aggregateActions = ['collapseRows', 'count', 'groupBy', 'pivot'];
+
+/**
+ * The outputs of the node, the table and one output for each kind of rows which the
+ * transformations route away from it.
+ */
+const outputNames = [
+  'Table',
+  'Rejected',
+  'Invalid',
+  'Removed',
+  'Changed',
+  'Unchanged',
+  'Output 1',
+  'Output 2',
+  'Output 3',
+];
+
 /**
  * A node which allows you to transform the table.
  */
@@ -32,8 +148,12 @@ export class TableTransform implements INodeType {
       name: 'TableTransform',
       color: '#772244',
     },
-    inputs: ['main'],
-    outputs: ['main'],
+    // The second input holds the table to join, compare or look up against.
+    // eslint-disable-next-line n8n-nodes-base/node-class-description-inputs-wrong-regular-node
+    inputs: ['main', 'main'],
+    inputNames: ['Table', 'Second Table'],
+    outputs: outputNames.map(() => 'main'),
+    outputNames,
     properties: [
       {
         displayName: 'Transformations',
@@ -50,17 +170,49 @@ export class TableTransform implements INodeType {
           {
             name: 'transformation',
             displayName: 'Transformation',
+            // The fields are grouped by the actions which show them instead of sorted by name.
+            // eslint-disable-next-line n8n-nodes-base/node-param-fixed-collection-type-unsorted-items
             values: [
               {
                 displayName: 'Action',
                 name: 'action',
                 type: 'options',
                 options: [
+                  {
+                    name: 'Add Column',
+                    value: 'addColumn',
+                    description: 'Add a column from a template',
+                    action: 'Add a column from a template',
+                  },
+                  {
+                    name: 'Collapse Rows',
+                    value: 'collapseRows',
+                    description: 'Merge rows with the same key columns into one row',
+                    action: 'Merge rows with the same key columns into one row',
+                  },
+                  {
+                    name: 'Combine Columns',
+                    value: 'combineColumns',
+                    description: 'Combine the values of columns into one column',
+                    action: 'Combine the values of columns into one column',
+                  },
+                  {
+                    name: 'Compare',
+                    value: 'compare',
+                    description: 'Compare the rows with the rows of the second input',
+                    action: 'Compare the rows with the rows of the second input',
+                  },
+                  {
+                    name: 'Convert Types',
+                    value: 'convertTypes',
+                    description: 'Convert the values of columns into types',
+                    action: 'Convert the values of columns into types',
+                  },
                   {
                     name: 'Count',
                     value: 'count',
-                    description: 'Count the rows, cols or cells',
-                    action: 'Count the rows cols or cells',
+                    description: 'Count the rows, cols or cells or profile the columns',
+                    action: 'Count the table or profile its columns',
                   },
                   {
                     name: 'Demote Header',
@@ -68,12 +220,78 @@ export class TableTransform implements INodeType {
                     description: 'Move header as row and creates a new header',
                     action: 'Move header as row and creates a new header',
                   },
+                  {
+                    name: 'Drop Columns',
+                    value: 'dropColumns',
+                    description: 'Remove the listed columns',
+                    action: 'Remove the listed columns',
+                  },
+                  {
+                    name: 'Export',
+                    value: 'exportTable',
+                    description: 'Export the table as a file',
+                    action: 'Export the table as a file',
+                  },
+                  {
+                    name: 'Fill',
+                    value: 'fill',
+                    description: 'Fill empty cells with other values',
+                    action: 'Fill empty cells with other values',
+                  },
+                  {
+                    name: 'Filter',
+                    value: 'filter',
+                    description: 'Keep only rows which match conditions',
+                    action: 'Keep only rows which match conditions',
+                  },
+                  {
+                    name: 'Flatten',
+                    value: 'flatten',
+                    description: 'Turn nested objects into columns',
+                    action: 'Turn nested objects into columns',
+                  },
+                  {
+                    name: 'Group By',
+                    value: 'groupBy',
+                    description: 'Group rows by columns and aggregate the values of each group',
+                    action: 'Group rows by columns and aggregate the values of each group',
+                  },
+                  {
+                    name: 'Join',
+                    value: 'join',
+                    description: 'Join rows with the rows of the second input by key columns',
+                    action: 'Join rows with the rows of the second input by key columns',
+                  },
+                  {
+                    name: 'Limit',
+                    value: 'limit',
+                    description: 'Keep only a number of rows',
+                    action: 'Keep only a number of rows',
+                  },
+                  {
+                    name: 'Lookup',
+                    value: 'lookup',
+                    description: 'Translate the values of a column by a mapping',
+                    action: 'Translate the values of a column by a mapping',
+                  },
                   {
                     name: 'Navigate',
                     value: 'navigate',
                     description: 'Navigate in a nested table',
                     action: 'Navigate in a nested table',
                   },
+                  {
+                    name: 'Parse CSV',
+                    value: 'parseCsv',
+                    description: 'Parse delimited text into rows',
+                    action: 'Parse delimited text into rows',
+                  },
+                  {
+                    name: 'Pivot',
+                    value: 'pivot',
+                    description: 'Spread a key and a value column into new columns',
+                    action: 'Spread a key and a value column into new columns',
+                  },
                   {
                     name: 'Promote Header',
                     value: 'promoteHeader',
@@ -81,220 +299,3372 @@ export class TableTransform implements INodeType {
                       'First row will use as header and the current header will be removed',
                     action: 'First row will use as header and the current header will be removed',
                   },
+                  {
+                    name: 'Remove Duplicates',
+                    value: 'removeDuplicates',
+                    description: 'Remove rows with the same values',
+                    action: 'Remove rows with the same values',
+                  },
+                  {
+                    name: 'Rename Columns',
+                    value: 'renameColumns',
+                    description: 'Rename columns by a mapping or a regular expression',
+                    action: 'Rename columns by a mapping or a regular expression',
+                  },
+                  {
+                    name: 'Reorder Columns',
+                    value: 'reorderColumns',
+                    description: 'Change the order of the columns',
+                    action: 'Change the order of the columns',
+                  },
+                  {
+                    name: 'Select Columns',
+                    value: 'selectColumns',
+                    description: 'Keep only the listed columns',
+                    action: 'Keep only the listed columns',
+                  },
+                  {
+                    name: 'Sort',
+                    value: 'sort',
+                    description: 'Sort rows by one or more columns',
+                    action: 'Sort rows by one or more columns',
+                  },
+                  {
+                    name: 'Split by Value',
+                    value: 'splitByValue',
+                    description: 'Route rows to outputs or group them by the values of a column',
+                    action: 'Route rows to outputs or group them by the values of a column',
+                  },
+                  {
+                    name: 'Split Column',
+                    value: 'splitColumn',
+                    description: 'Split the values of a column into columns or rows',
+                    action: 'Split the values of a column into columns or rows',
+                  },
                   {
                     name: 'Transpose',
                     value: 'transpose',
                     description: 'Swap rows with columns',
                     action: 'Swap rows with columns',
                   },
+                  {
+                    name: 'Unflatten',
+                    value: 'unflatten',
+                    description: 'Turn columns into nested objects',
+                    action: 'Turn columns into nested objects',
+                  },
+                  {
+                    name: 'Unpivot',
+                    value: 'unpivot',
+                    description: 'Turn columns into key value rows',
+                    action: 'Turn columns into key value rows',
+                  },
+                  {
+                    name: 'Validate',
+                    value: 'validate',
+                    description: 'Send rows which break rules to the Invalid output',
+                    action: 'Send rows which break rules to the invalid output',
+                  },
+                  {
+                    name: 'Window',
+                    value: 'window',
+                    description: 'Compute ranks, running totals and other values over ordered rows',
+                    action: 'Compute ranks and running or moving values over ordered rows',
+                  },
                 ],
                 default: 'transpose',
               },
-            ],
-          },
-          {
-            displayName: 'Type',
-            name: 'navigateType',
-            type: 'options',
-            displayOptions: {
-              show: {
-                action: ['navigate'],
+              {
+                displayName: 'Type',
+                name: 'navigateType',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['navigate'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Row',
+                    value: 'row',
+                  },
+                  {
+                    name: 'Column',
+                    value: 'col',
+                  },
+                  {
+                    name: 'Cell',
+                    value: 'cell',
+                  },
+                ],
+                default: 'cell',
+                description: 'In which way you want to navigate',
               },
-            },
-            options: [
               {
-                name: 'Row',
-                value: 'row',
+                displayName: 'Row',
+                name: 'row',
+                type: 'number',
+                displayOptions: {
+                  show: {
+                    action: ['navigate'],
+                    navigateType: ['row', 'cell'],
+                  },
+                },
+                typeOptions: {
+                  minValue: 0,
+                },
+                default: 0,
+                description: 'Row index',
               },
               {
-                name: 'Column',
-                value: 'col',
+                displayName: 'Col',
+                name: 'col',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['navigate'],
+                    navigateType: ['col', 'cell'],
+                  },
+                },
+                default: '',
+                required: true,
+                placeholder: 'data.results[*].items',
+                description:
+                  'Col name or path with dot or bracket notation. Use [*] to process every entry as a row.',
               },
               {
-                name: 'Cell',
-                value: 'cell',
+                displayName: 'Expand',
+                name: 'expand',
+                type: 'boolean',
+                displayOptions: {
+                  show: {
+                    action: ['navigate'],
+                  },
+                },
+                default: true,
+                required: true,
+                description: 'Whether to extend the data with the previous data',
               },
-            ],
-            default: 'cell',
-            description: 'In which way you want to navigate',
-          },
-          {
-            displayName: 'Row',
-            name: 'row',
-            type: 'number',
-            displayOptions: {
-              show: {
-                action: ['navigate'],
-                navigateType: ['row', 'cell'],
+              {
+                displayName: 'Loop Array',
+                name: 'loopArray',
+                type: 'boolean',
+                displayOptions: {
+                  show: {
+                    action: ['navigate'],
+                  },
+                },
+                default: true,
+                required: true,
+                description:
+                  'Whether the data, if they represent an array, are automatically processed as rows',
               },
-            },
-            typeOptions: {
-              minValue: 0,
-            },
-            default: 0,
-            description: 'Row index',
-          },
-          {
-            displayName: 'Col',
-            name: 'col',
-            type: 'string',
-            displayOptions: {
-              show: {
-                action: ['navigate'],
-                navigateType: ['col', 'cell'],
+              {
+                displayName: 'Type',
+                name: 'countType',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['count'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Rows',
+                    value: 'rows',
+                  },
+                  {
+                    name: 'Columns',
+                    value: 'cols',
+                  },
+                  {
+                    name: 'Cells',
+                    value: 'cells',
+                  },
+                  {
+                    name: 'Profile',
+                    value: 'profile',
+                    description: 'Return statistics for each column',
+                  },
+                ],
+                default: 'rows',
+                description: 'What exactly to count',
               },
-            },
-            default: '',
-            required: true,
-            description: 'Col name',
-          },
-          {
-            displayName: 'Expand',
-            name: 'expand',
-            type: 'boolean',
-            displayOptions: {
-              show: {
-                action: ['navigate'],
+              {
+                displayName: 'Destination Key',
+                name: 'destinationKey',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['count'],
+                  },
+                  hide: {
+                    countType: ['profile'],
+                  },
+                },
+                default: 'data',
+                required: true,
+                placeholder: 'data',
+                description:
+                  'The name the JSON key to copy data to. It is also possibleto define deep keys by using dot-notation like for example:"level1.level2.newKey".',
               },
-            },
-            default: true,
-            required: true,
-            description: 'Whether to extend the data with the previous data',
-          },
-          {
-            displayName: 'Loop Array',
-            name: 'loopArray',
-            type: 'boolean',
-            displayOptions: {
-              show: {
-                action: ['navigate'],
+              {
+                displayName: 'Most Frequent Values',
+                name: 'topValues',
+                type: 'number',
+                displayOptions: {
+                  show: {
+                    action: ['count'],
+                    countType: ['profile'],
+                  },
+                },
+                typeOptions: {
+                  minValue: 0,
+                },
+                default: 5,
+                description: 'How many of the most frequent values are returned for each column',
               },
-            },
-            default: true,
-            required: true,
-            description:
-              'Whether the data, if they represent an array, are automatically processed as rows',
-          },
-          {
-            displayName: 'Type',
-            name: 'countType',
-            type: 'options',
-            displayOptions: {
-              show: {
-                action: ['count'],
+              {
+                displayName: 'Identifier Columns',
+                name: 'idColumns',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['unpivot'],
+                  },
+                },
+                default: '',
+                placeholder: 'ID, name',
+                description: 'Comma-separated list of columns which are kept on every row',
               },
-            },
-            options: [
               {
-                name: 'Rows',
-                value: 'rows',
+                displayName: 'Unpivot Columns',
+                name: 'valueColumns',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['unpivot'],
+                  },
+                },
+                default: '',
+                placeholder: 'january, february',
+                description:
+                  'Comma-separated list of columns which are turned into rows. Leave empty to use all other columns.',
               },
               {
-                name: 'Columns',
-                value: 'cols',
+                displayName: 'Key Column Name',
+                name: 'keyName',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['unpivot'],
+                  },
+                },
+                default: 'key',
+                required: true,
+                description: 'The column name for the former column names',
               },
               {
-                name: 'Cells',
-                value: 'cells',
+                displayName: 'Value Column Name',
+                name: 'valueName',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['unpivot'],
+                  },
+                },
+                default: 'value',
+                required: true,
+                description: 'The column name for the former cell values',
               },
-            ],
-            default: 'rows',
-            description: 'What exactly to count',
-          },
-          {
-            displayName: 'Destination Key',
-            name: 'destinationKey',
-            type: 'string',
-            displayOptions: {
-              show: {
-                action: ['count'],
+              {
+                displayName: 'Key Column',
+                name: 'keyColumn',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['pivot'],
+                  },
+                },
+                default: 'key',
+                required: true,
+                description: 'The column which contains the new column names',
               },
-            },
-            default: 'data',
-            required: true,
-            placeholder: 'data',
-            description:
-              'The name the JSON key to copy data to. It is also possibleto define deep keys by using dot-notation like for example:"level1.level2.newKey".',
-          },
-        ],
-      },
-    ],
-  };
-
-  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-    let returnData = this.getInputData();
-    //let returnData: INodeExecutionData[] = items.map(item => {
-    //  const newItem: INodeExecutionData = {
-    //    json: JSON.parse(JSON.stringify(item.json)) as IDataObject,
-    //  };
-    //  if (item.binary !== undefined) {
-    //    newItem.binary = {};
-    //    Object.assign(newItem.binary, item.binary);
-    //  }
-    //  return newItem;
-    //});
-
-    for (const transformation of (this.getNodeParameter('transformations.transformation', 0, []) as
-      | INodeParameters[]
-      | null) ?? []) {
-      switch (transformation.action) {
-        case 'transpose':
-          returnData = transpose(returnData);
-          break;
-        case 'navigate':
-          switch (transformation.navigateType) {
-            case 'row':
-              returnData = navigateIntoRow(
-                returnData,
-                this.getNodeParameter('row', 0) as number,
-                this.getNodeParameter('col', 0) as string,
-                (index) => this.getNodeParameter('expand', index) as boolean,
-                (index) => this.getNodeParameter('loopArray', index) as boolean,
-              );
-              break;
-            case 'col':
-              returnData = navigateIntoCol(
-                returnData,
-                (index) => this.getNodeParameter('col', index) as string,
-                (index) => this.getNodeParameter('expand', index) as boolean,
-                (index) => this.getNodeParameter('loopArray', index) as boolean,
-              );
-              break;
-            case 'cell':
-              returnData = navigateIntoCell(
-                returnData,
-                this.getNodeParameter('row', 0) as number,
-                this.getNodeParameter('col', 0) as string,
-                this.getNodeParameter('expand', 0) as boolean,
-                this.getNodeParameter('loopArray', 0) as boolean,
-              );
-              break;
-            default:
-              throw new NodeOperationError(this.getNode(), 'row, col or cell are valid options');
-          }
-          break;
-        case 'demoteHeader':
-          returnData = demoteHeader(returnData);
-          break;
-        case 'promoteHeader':
-          returnData = promoteHeader(returnData);
-          break;
-        case 'count': {
-          const countType = this.getNodeParameter('countType', 0);
-          if (countType != 'rows' && countType != 'cols' && countType != 'cells')
-            throw new NodeOperationError(this.getNode(), 'rows, cols or cells are valid options');
-          returnData = count(
-            returnData,
-            countType,
-            this.getNodeParameter('destinationKey', 0) as string,
-          );
-          break;
-        }
-        default:
-          throw new NodeOperationError(this.getNode(), 'transpose or navigate are valid options');
+              {
+                displayName: 'Value Column',
+                name: 'valueColumn',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['pivot'],
+                  },
+                },
+                default: 'value',
+                required: true,
+                description: 'The column which contains the new cell values',
+              },
+              {
+                displayName: 'Aggregation',
+                name: 'aggregation',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['pivot'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Count',
+                    value: 'count',
+                  },
+                  {
+                    name: 'First',
+                    value: 'first',
+                  },
+                  {
+                    name: 'Last',
+                    value: 'last',
+                  },
+                  {
+                    name: 'List',
+                    value: 'list',
+                  },
+                  {
+                    name: 'Sum',
+                    value: 'sum',
+                  },
+                ],
+                default: 'first',
+                description: 'How to aggregate values with the same key',
+              },
+              {
+                displayName: 'Group Columns',
+                name: 'groupColumns',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['groupBy', 'collapseRows'],
+                  },
+                },
+                default: '',
+                placeholder: 'country, city',
+                description: 'Comma-separated list of columns to group by',
+              },
+              {
+                displayName: 'Aggregations',
+                name: 'aggregations',
+                placeholder: 'Add Aggregation',
+                type: 'fixedCollection',
+                typeOptions: {
+                  multipleValues: true,
+                  sortable: true,
+                },
+                displayOptions: {
+                  show: {
+                    action: ['groupBy'],
+                  },
+                },
+                description: 'The aggregations for each group',
+                default: {},
+                options: [
+                  {
+                    name: 'aggregation',
+                    displayName: 'Aggregation',
+                    values: [
+                      {
+                        displayName: 'Aggregation',
+                        name: 'aggregation',
+                        type: 'options',
+                        options: [
+                          {
+                            name: 'Average',
+                            value: 'average',
+                          },
+                          {
+                            name: 'Concatenate',
+                            value: 'concatenate',
+                          },
+                          {
+                            name: 'Count',
+                            value: 'count',
+                          },
+                          {
+                            name: 'Count Distinct',
+                            value: 'countDistinct',
+                          },
+                          {
+                            name: 'First',
+                            value: 'first',
+                          },
+                          {
+                            name: 'Last',
+                            value: 'last',
+                          },
+                          {
+                            name: 'List',
+                            value: 'list',
+                          },
+                          {
+                            name: 'Max',
+                            value: 'max',
+                          },
+                          {
+                            name: 'Min',
+                            value: 'min',
+                          },
+                          {
+                            name: 'Sum',
+                            value: 'sum',
+                          },
+                        ],
+                        default: 'count',
+                        description: 'How to aggregate the values of each group',
+                      },
+                      {
+                        displayName: 'Column',
+                        name: 'column',
+                        type: 'string',
+                        default: '',
+                        description:
+                          'The column to aggregate. Leave empty to aggregate the whole rows.',
+                      },
+                      {
+                        displayName: 'Destination Key',
+                        name: 'destinationKey',
+                        type: 'string',
+                        default: 'data',
+                        required: true,
+                        placeholder: 'data',
+                        description:
+                          'The name the JSON key to copy data to. It is also possible to define deep keys by using dot-notation like for example:"level1.level2.newKey".',
+                      },
+                      {
+                        displayName: 'Separator',
+                        name: 'separator',
+                        type: 'string',
+                        displayOptions: {
+                          show: {
+                            aggregation: ['concatenate'],
+                          },
+                        },
+                        default: ', ',
+                        description: 'The separator used to concatenate the values',
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                displayName: 'Join Type',
+                name: 'joinType',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['join'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Full Outer',
+                    value: 'full',
+                    description: 'Keep all rows of both inputs',
+                  },
+                  {
+                    name: 'Inner',
+                    value: 'inner',
+                    description: 'Keep only rows which match on both inputs',
+                  },
+                  {
+                    name: 'Left',
+                    value: 'left',
+                    description: 'Keep all rows of the first input',
+                  },
+                  {
+                    name: 'Left Anti',
+                    value: 'leftAnti',
+                    description: 'Keep only rows of the first input without a match',
+                  },
+                  {
+                    name: 'Right',
+                    value: 'right',
+                    description: 'Keep all rows of the second input',
+                  },
+                  {
+                    name: 'Right Anti',
+                    value: 'rightAnti',
+                    description: 'Keep only rows of the second input without a match',
+                  },
+                ],
+                default: 'inner',
+                description: 'How to join the rows',
+              },
+              {
+                displayName: 'Key Columns',
+                name: 'leftKeys',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['join', 'compare'],
+                  },
+                },
+                default: '',
+                required: true,
+                placeholder: 'ID',
+                description: 'Comma-separated list of key columns of the first input',
+              },
+              {
+                displayName: 'Second Key Columns',
+                name: 'rightKeys',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['join', 'compare'],
+                  },
+                },
+                default: '',
+                placeholder: 'ID',
+                description:
+                  'Comma-separated list of key columns of the second input. Leave empty to use the same key columns as the first input.',
+              },
+              {
+                displayName: 'Column Name Collision',
+                name: 'collision',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['join'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Add Prefix',
+                    value: 'prefix',
+                  },
+                  {
+                    name: 'Add Suffix',
+                    value: 'suffix',
+                  },
+                ],
+                default: 'suffix',
+                description: 'How to rename column names which exist on both inputs',
+              },
+              {
+                displayName: 'First Affix',
+                name: 'leftAffix',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['join'],
+                  },
+                },
+                default: '',
+                description: 'The prefix or suffix for colliding column names of the first input',
+              },
+              {
+                displayName: 'Second Affix',
+                name: 'rightAffix',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['join'],
+                  },
+                },
+                default: '_right',
+                description:
+                  'The prefix or suffix for colliding column names and binary keys of the second input',
+              },
+              {
+                displayName: 'Binary Data',
+                name: 'joinBinary',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['join'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Both',
+                    value: 'both',
+                    description: 'Merge the binary data of both inputs',
+                  },
+                  {
+                    name: 'First Input',
+                    value: 'left',
+                  },
+                  {
+                    name: 'None',
+                    value: 'none',
+                  },
+                  {
+                    name: 'Second Input',
+                    value: 'right',
+                  },
+                ],
+                default: 'left',
+                description: 'Which binary data should be kept',
+              },
+              {
+                displayName: 'Separator',
+                name: 'flattenSeparator',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['flatten', 'unflatten'],
+                  },
+                },
+                default: '.',
+                description: 'The separator between the keys of each level',
+              },
+              {
+                displayName: 'Max Depth',
+                name: 'maxDepth',
+                type: 'number',
+                displayOptions: {
+                  show: {
+                    action: ['flatten'],
+                  },
+                },
+                typeOptions: {
+                  minValue: 0,
+                },
+                default: 0,
+                description: 'How many levels are flattened, 0 for all levels',
+              },
+              {
+                displayName: 'Flatten Arrays',
+                name: 'flattenArrays',
+                type: 'boolean',
+                displayOptions: {
+                  show: {
+                    action: ['flatten'],
+                  },
+                },
+                default: true,
+                description: 'Whether arrays are flattened by their index',
+              },
+              {
+                displayName: 'Conditions',
+                name: 'conditions',
+                placeholder: 'Add Condition',
+                type: 'fixedCollection',
+                typeOptions: {
+                  multipleValues: true,
+                  sortable: true,
+                },
+                displayOptions: {
+                  show: {
+                    action: ['filter'],
+                  },
+                },
+                description: 'The conditions a row has to match',
+                default: {},
+                options: [
+                  {
+                    name: 'condition',
+                    displayName: 'Condition',
+                    values: [
+                      {
+                        displayName: 'Column',
+                        name: 'column',
+                        type: 'string',
+                        default: '',
+                        required: true,
+                        description: 'The column to check',
+                      },
+                      {
+                        displayName: 'Operation',
+                        name: 'operation',
+                        type: 'options',
+                        noDataExpression: true,
+                        options: [
+                          {
+                            name: 'Contains',
+                            value: 'contains',
+                            action: 'Check if the column contains the value',
+                          },
+                          {
+                            name: 'Equals',
+                            value: 'equals',
+                            action: 'Check if the column equals the value',
+                          },
+                          {
+                            name: 'Greater Than',
+                            value: 'greaterThan',
+                            action: 'Check if the column is greater than the value',
+                          },
+                          {
+                            name: 'Is Empty',
+                            value: 'isEmpty',
+                            action: 'Check if the column is empty',
+                          },
+                          {
+                            name: 'Is In List',
+                            value: 'isInList',
+                            description: 'Whether the value is in a comma-separated list',
+                            action: 'Check if the column is in a comma separated list',
+                          },
+                          {
+                            name: 'Is Not Empty',
+                            value: 'isNotEmpty',
+                            action: 'Check if the column is not empty',
+                          },
+                          {
+                            name: 'Less Than',
+                            value: 'lessThan',
+                            action: 'Check if the column is less than the value',
+                          },
+                          {
+                            name: 'Not Equals',
+                            value: 'notEquals',
+                            action: 'Check if the column does not equal the value',
+                          },
+                          {
+                            name: 'Regex',
+                            value: 'regex',
+                            action: 'Check if the column matches a regular expression',
+                          },
+                        ],
+                        default: 'equals',
+                        description: 'How to check the column',
+                      },
+                      {
+                        displayName: 'Value',
+                        name: 'value',
+                        type: 'string',
+                        displayOptions: {
+                          hide: {
+                            operation: ['isEmpty', 'isNotEmpty'],
+                          },
+                        },
+                        default: '',
+                        description: 'The value to compare with',
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                displayName: 'Combine',
+                name: 'combineConditions',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['filter'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'All Conditions (AND)',
+                    value: 'and',
+                  },
+                  {
+                    name: 'Any Condition (OR)',
+                    value: 'or',
+                  },
+                ],
+                default: 'and',
+                description: 'Whether all or any condition has to match',
+              },
+              {
+                displayName: 'Route Rejected Rows',
+                name: 'routeRejected',
+                type: 'boolean',
+                displayOptions: {
+                  show: {
+                    action: ['filter'],
+                  },
+                },
+                default: false,
+                description:
+                  'Whether rejected rows are sent to the Rejected output instead of being discarded',
+              },
+              {
+                displayName: 'Sort Keys',
+                name: 'sortKeys',
+                placeholder: 'Add Sort Key',
+                type: 'fixedCollection',
+                typeOptions: {
+                  multipleValues: true,
+                  sortable: true,
+                },
+                displayOptions: {
+                  show: {
+                    action: ['sort'],
+                  },
+                },
+                description: 'The columns to sort by in order of priority',
+                default: {},
+                options: [
+                  {
+                    name: 'sortKey',
+                    displayName: 'Sort Key',
+                    values: [
+                      {
+                        displayName: 'Column',
+                        name: 'column',
+                        type: 'string',
+                        default: '',
+                        required: true,
+                        description: 'The column to sort by',
+                      },
+                      {
+                        displayName: 'Direction',
+                        name: 'direction',
+                        type: 'options',
+                        options: [
+                          {
+                            name: 'Ascending',
+                            value: 'ascending',
+                          },
+                          {
+                            name: 'Descending',
+                            value: 'descending',
+                          },
+                        ],
+                        default: 'ascending',
+                      },
+                      {
+                        displayName: 'Comparison',
+                        name: 'comparison',
+                        type: 'options',
+                        options: [
+                          {
+                            name: 'Date',
+                            value: 'date',
+                          },
+                          {
+                            name: 'Natural',
+                            value: 'natural',
+                            description:
+                              'Compare text with numbers like a human, e.g. "2" before "10"',
+                          },
+                          {
+                            name: 'Numeric',
+                            value: 'numeric',
+                          },
+                          {
+                            name: 'String',
+                            value: 'string',
+                          },
+                        ],
+                        default: 'string',
+                        description: 'How the values are compared',
+                      },
+                      {
+                        displayName: 'Empty Values',
+                        name: 'nulls',
+                        type: 'options',
+                        options: [
+                          {
+                            name: 'First',
+                            value: 'first',
+                          },
+                          {
+                            name: 'Last',
+                            value: 'last',
+                          },
+                        ],
+                        default: 'last',
+                        description: 'Where empty or not comparable values are placed',
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                displayName: 'Compare Columns',
+                name: 'compareColumns',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['removeDuplicates'],
+                  },
+                },
+                default: '',
+                placeholder: 'ID, email',
+                description:
+                  'Comma-separated list of columns to compare. Leave empty to compare the whole rows.',
+              },
+              {
+                displayName: 'Keep',
+                name: 'keep',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['removeDuplicates'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'First',
+                    value: 'first',
+                  },
+                  {
+                    name: 'Last',
+                    value: 'last',
+                  },
+                ],
+                default: 'first',
+                description: 'Whether the first or the last duplicate is kept',
+              },
+              {
+                displayName: 'Mode',
+                name: 'limitMode',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['limit'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'First Rows',
+                    value: 'head',
+                  },
+                  {
+                    name: 'Last Rows',
+                    value: 'tail',
+                  },
+                  {
+                    name: 'Offset',
+                    value: 'offset',
+                  },
+                ],
+                default: 'head',
+                description: 'Which rows are kept',
+              },
+              {
+                displayName: 'Offset',
+                name: 'offset',
+                type: 'number',
+                displayOptions: {
+                  show: {
+                    action: ['limit'],
+                    limitMode: ['offset'],
+                  },
+                },
+                typeOptions: {
+                  minValue: 0,
+                },
+                default: 0,
+                description: 'How many rows are skipped',
+              },
+              {
+                displayName: 'Limit',
+                name: 'limit',
+                type: 'number',
+                displayOptions: {
+                  show: {
+                    action: ['limit'],
+                  },
+                },
+                typeOptions: {
+                  minValue: 1,
+                },
+                default: 50,
+                description: 'Max number of results to return',
+              },
+              {
+                displayName: 'Columns',
+                name: 'columns',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['selectColumns', 'dropColumns', 'combineColumns'],
+                  },
+                },
+                default: '',
+                required: true,
+                placeholder: 'ID, name',
+                description: 'Comma-separated list of columns',
+              },
+              {
+                displayName: 'Columns',
+                name: 'columnOrder',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['reorderColumns'],
+                  },
+                },
+                default: '',
+                required: true,
+                placeholder: 'ID, *, createdAt',
+                description:
+                  'Comma-separated list of columns in the new order. Use * as placeholder for all other columns, otherwise they are appended.',
+              },
+              {
+                displayName: 'Mode',
+                name: 'renameMode',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['renameColumns'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Mapping',
+                    value: 'mapping',
+                  },
+                  {
+                    name: 'Regex',
+                    value: 'regex',
+                  },
+                ],
+                default: 'mapping',
+                description: 'How the new column names are defined',
+              },
+              {
+                displayName: 'Renames',
+                name: 'renames',
+                placeholder: 'Add Rename',
+                type: 'fixedCollection',
+                typeOptions: {
+                  multipleValues: true,
+                },
+                displayOptions: {
+                  show: {
+                    action: ['renameColumns'],
+                    renameMode: ['mapping'],
+                  },
+                },
+                description: 'The columns to rename',
+                default: {},
+                options: [
+                  {
+                    name: 'rename',
+                    displayName: 'Rename',
+                    values: [
+                      {
+                        displayName: 'Current Name',
+                        name: 'from',
+                        type: 'string',
+                        default: '',
+                        required: true,
+                      },
+                      {
+                        displayName: 'New Name',
+                        name: 'to',
+                        type: 'string',
+                        default: '',
+                        required: true,
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                displayName: 'Pattern',
+                name: 'pattern',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['renameColumns'],
+                    renameMode: ['regex'],
+                  },
+                },
+                default: '',
+                required: true,
+                placeholder: '^old_(.*)$',
+                description: 'The regular expression to search for in the column names',
+              },
+              {
+                displayName: 'Replacement',
+                name: 'replacement',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['renameColumns'],
+                    renameMode: ['regex'],
+                  },
+                },
+                default: '',
+                placeholder: 'new_$1',
+                description: 'The replacement, groups can be referenced like $1',
+              },
+              {
+                displayName: 'Column Name',
+                name: 'columnName',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['addColumn'],
+                  },
+                },
+                default: '',
+                required: true,
+                description: 'The name of the new column',
+              },
+              {
+                displayName: 'Template',
+                name: 'template',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['addColumn'],
+                  },
+                },
+                default: '',
+                placeholder: '{firstName} {lastName}',
+                description:
+                  'The value of the new column. {name} is replaced by the value of the column of the same row.',
+              },
+              {
+                displayName: 'Source',
+                name: 'csvSource',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['parseCsv'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Binary Property',
+                    value: 'binary',
+                  },
+                  {
+                    name: 'JSON Field',
+                    value: 'json',
+                  },
+                ],
+                default: 'binary',
+                description: 'Where the delimited text is read from',
+              },
+              {
+                displayName: 'Field',
+                name: 'csvField',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['parseCsv'],
+                    csvSource: ['json'],
+                  },
+                },
+                default: 'data',
+                required: true,
+                description: 'The column which contains the delimited text',
+              },
+              {
+                displayName: 'Binary Property',
+                name: 'binaryPropertyName',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['parseCsv'],
+                    csvSource: ['binary'],
+                  },
+                },
+                default: 'data',
+                required: true,
+                description: 'Name of the binary property which contains the delimited text',
+              },
+              {
+                displayName: 'Encoding',
+                name: 'encoding',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['parseCsv'],
+                    csvSource: ['binary'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'ASCII',
+                    value: 'ascii',
+                  },
+                  {
+                    name: 'ISO-8859-1',
+                    value: 'latin1',
+                  },
+                  {
+                    name: 'UTF-16 LE',
+                    value: 'utf16le',
+                  },
+                  {
+                    name: 'UTF-8',
+                    value: 'utf8',
+                  },
+                ],
+                default: 'utf8',
+                description: 'The encoding of the binary data',
+              },
+              {
+                displayName: 'Delimiter',
+                name: 'delimiter',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['parseCsv'],
+                  },
+                },
+                default: '',
+                placeholder: ',',
+                description:
+                  'The delimiter between fields. Leave empty to detect comma, semicolon, tab or pipe.',
+              },
+              {
+                displayName: 'Quote Character',
+                name: 'quote',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['parseCsv'],
+                  },
+                },
+                default: '"',
+                description: 'The character which encloses fields',
+              },
+              {
+                displayName: 'Escape Character',
+                name: 'escape',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['parseCsv'],
+                  },
+                },
+                default: '"',
+                description: 'The character which escapes a quote in an enclosed field',
+              },
+              {
+                displayName: 'First Row Is Header',
+                name: 'firstRowIsHeader',
+                type: 'boolean',
+                displayOptions: {
+                  show: {
+                    action: ['parseCsv'],
+                  },
+                },
+                default: true,
+                description: 'Whether the first row contains the column names',
+              },
+              {
+                displayName: 'Format',
+                name: 'exportFormat',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['exportTable'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'CSV',
+                    value: 'csv',
+                  },
+                  {
+                    name: 'HTML Table',
+                    value: 'html',
+                  },
+                  {
+                    name: 'JSON Lines',
+                    value: 'jsonl',
+                  },
+                  {
+                    name: 'Markdown Table',
+                    value: 'markdown',
+                  },
+                  {
+                    name: 'TSV',
+                    value: 'tsv',
+                  },
+                  {
+                    name: 'XLSX',
+                    value: 'xlsx',
+                  },
+                ],
+                default: 'csv',
+                description: 'The file format',
+              },
+              {
+                displayName: 'Binary Property',
+                name: 'binaryPropertyName',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['exportTable'],
+                  },
+                },
+                default: 'data',
+                required: true,
+                description: 'Name of the binary property to write the file to',
+              },
+              {
+                displayName: 'File Name',
+                name: 'fileName',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['exportTable'],
+                  },
+                },
+                default: '',
+                placeholder: 'table.csv',
+                description: 'The file name. Leave empty to use "table" with the format extension.',
+              },
+              {
+                displayName: 'Include Header',
+                name: 'includeHeader',
+                type: 'boolean',
+                displayOptions: {
+                  show: {
+                    action: ['exportTable'],
+                    exportFormat: ['csv', 'tsv', 'html', 'xlsx'],
+                  },
+                },
+                default: true,
+                description: 'Whether the first row contains the column names',
+              },
+              {
+                displayName: 'Delimiter',
+                name: 'delimiter',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['exportTable'],
+                    exportFormat: ['csv'],
+                  },
+                },
+                default: ',',
+                description: 'The delimiter between fields',
+              },
+              {
+                displayName: 'Date Format',
+                name: 'dateFormat',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['exportTable'],
+                    exportFormat: ['csv', 'tsv', 'html', 'markdown', 'xlsx'],
+                  },
+                },
+                default: '',
+                placeholder: 'YYYY-MM-DD HH:mm:ss',
+                description:
+                  'The format for dates in UTC with the tokens YYYY, MM, DD, HH, mm and ss. Leave empty to keep dates as they are.',
+              },
+              {
+                displayName: 'Mode',
+                name: 'convertMode',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['convertTypes'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Infer Types',
+                    value: 'infer',
+                    description: 'Infer the type of each column by sampling rows',
+                  },
+                  {
+                    name: 'Schema',
+                    value: 'schema',
+                    description: 'Define the type of each column',
+                  },
+                ],
+                default: 'infer',
+                description: 'How the types of the columns are defined',
+              },
+              {
+                displayName: 'Sample Size',
+                name: 'sampleSize',
+                type: 'number',
+                displayOptions: {
+                  show: {
+                    action: ['convertTypes'],
+                    convertMode: ['infer'],
+                  },
+                },
+                typeOptions: {
+                  minValue: 0,
+                },
+                default: 100,
+                description: 'How many rows are sampled, 0 for all rows',
+              },
+              {
+                displayName: 'Schema',
+                name: 'schema',
+                placeholder: 'Add Column',
+                type: 'fixedCollection',
+                typeOptions: {
+                  multipleValues: true,
+                },
+                displayOptions: {
+                  show: {
+                    action: ['convertTypes'],
+                    convertMode: ['schema'],
+                  },
+                },
+                description: 'The type of each column',
+                default: {},
+                options: [
+                  {
+                    name: 'column',
+                    displayName: 'Column',
+                    values: [
+                      {
+                        displayName: 'Column',
+                        name: 'column',
+                        type: 'string',
+                        default: '',
+                        required: true,
+                      },
+                      {
+                        displayName: 'Type',
+                        name: 'type',
+                        type: 'options',
+                        options: [
+                          {
+                            name: 'Boolean',
+                            value: 'boolean',
+                          },
+                          {
+                            name: 'Date',
+                            value: 'date',
+                          },
+                          {
+                            name: 'JSON',
+                            value: 'json',
+                          },
+                          {
+                            name: 'Number',
+                            value: 'number',
+                          },
+                          {
+                            name: 'String',
+                            value: 'string',
+                          },
+                        ],
+                        default: 'string',
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                displayName: 'Number Locale',
+                name: 'numberLocale',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['convertTypes'],
+                  },
+                },
+                default: '',
+                placeholder: 'de-DE',
+                description:
+                  'The locale for decimal and thousands separators of numbers. Leave empty to parse numbers like "1234.5".',
+              },
+              {
+                displayName: 'Date Format',
+                name: 'dateFormat',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['convertTypes'],
+                  },
+                },
+                default: '',
+                placeholder: 'DD.MM.YYYY',
+                description:
+                  'The format of dates with the tokens YYYY, MM, DD, HH, mm and ss. Leave empty to parse ISO dates.',
+              },
+              {
+                displayName: 'On Error',
+                name: 'onError',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['convertTypes'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Fail',
+                    value: 'fail',
+                  },
+                  {
+                    name: 'Keep Value',
+                    value: 'keep',
+                  },
+                  {
+                    name: 'Set to Null',
+                    value: 'null',
+                  },
+                ],
+                default: 'fail',
+                description: 'What happens if a value can not be converted',
+              },
+              {
+                displayName: 'Rules',
+                name: 'rules',
+                placeholder: 'Add Rule',
+                type: 'fixedCollection',
+                typeOptions: {
+                  multipleValues: true,
+                },
+                displayOptions: {
+                  show: {
+                    action: ['validate'],
+                  },
+                },
+                description: 'The rules a row has to follow',
+                default: {},
+                options: [
+                  {
+                    name: 'rule',
+                    displayName: 'Rule',
+                    values: [
+                      {
+                        displayName: 'Column',
+                        name: 'column',
+                        type: 'string',
+                        default: '',
+                        required: true,
+                        description: 'The column to validate',
+                      },
+                      {
+                        displayName: 'Rule',
+                        name: 'rule',
+                        type: 'options',
+                        options: [
+                          {
+                            name: 'Allowed Values',
+                            value: 'allowedValues',
+                            description: 'The value has to be in a comma-separated list',
+                          },
+                          {
+                            name: 'Max',
+                            value: 'max',
+                            description: 'The value has to be a number less than or equal to a max',
+                          },
+                          {
+                            name: 'Min',
+                            value: 'min',
+                            description:
+                              'The value has to be a number greater than or equal to a min',
+                          },
+                          {
+                            name: 'Pattern',
+                            value: 'pattern',
+                            description: 'The value has to match a regular expression',
+                          },
+                          {
+                            name: 'Required',
+                            value: 'required',
+                            description: 'The value must not be empty',
+                          },
+                          {
+                            name: 'Type',
+                            value: 'type',
+                            description: 'The value has to be convertible into a type',
+                          },
+                          {
+                            name: 'Unique',
+                            value: 'unique',
+                            description: 'The value must not exist in another row',
+                          },
+                        ],
+                        default: 'required',
+                        description: 'The rule for the column, empty values only break Required',
+                      },
+                      {
+                        displayName: 'Type',
+                        name: 'type',
+                        type: 'options',
+                        displayOptions: {
+                          show: {
+                            rule: ['type'],
+                          },
+                        },
+                        options: [
+                          {
+                            name: 'Boolean',
+                            value: 'boolean',
+                          },
+                          {
+                            name: 'Date',
+                            value: 'date',
+                          },
+                          {
+                            name: 'JSON',
+                            value: 'json',
+                          },
+                          {
+                            name: 'Number',
+                            value: 'number',
+                          },
+                          {
+                            name: 'String',
+                            value: 'string',
+                          },
+                        ],
+                        default: 'string',
+                      },
+                      {
+                        displayName: 'Value',
+                        name: 'value',
+                        type: 'string',
+                        displayOptions: {
+                          show: {
+                            rule: ['allowedValues', 'pattern', 'min', 'max'],
+                          },
+                        },
+                        default: '',
+                        description:
+                          'The allowed values, the regular expression, the min or the max',
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                displayName: 'Partition Columns',
+                name: 'partitionColumns',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['window'],
+                  },
+                },
+                default: '',
+                placeholder: 'region',
+                description:
+                  'Comma-separated list of columns to partition by. Leave empty to use the whole table.',
+              },
+              {
+                displayName: 'Order By',
+                name: 'orderBy',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['window'],
+                  },
+                },
+                default: '',
+                placeholder: 'date',
+                description:
+                  'The column which orders the rows of each partition. Leave empty to keep the order of the rows, where every row ranks on its own.',
+              },
+              {
+                displayName: 'Order Direction',
+                name: 'orderDirection',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['window'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Ascending',
+                    value: 'ascending',
+                  },
+                  {
+                    name: 'Descending',
+                    value: 'descending',
+                  },
+                ],
+                default: 'ascending',
+              },
+              {
+                displayName: 'Order Comparison',
+                name: 'orderComparison',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['window'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Date',
+                    value: 'date',
+                  },
+                  {
+                    name: 'Natural',
+                    value: 'natural',
+                  },
+                  {
+                    name: 'Numeric',
+                    value: 'numeric',
+                  },
+                  {
+                    name: 'String',
+                    value: 'string',
+                  },
+                ],
+                default: 'string',
+                description: 'How the values of the order column are compared',
+              },
+              {
+                displayName: 'Functions',
+                name: 'windowFunctions',
+                placeholder: 'Add Function',
+                type: 'fixedCollection',
+                typeOptions: {
+                  multipleValues: true,
+                },
+                displayOptions: {
+                  show: {
+                    action: ['window'],
+                  },
+                },
+                description: 'The window functions',
+                default: {},
+                options: [
+                  {
+                    name: 'windowFunction',
+                    displayName: 'Function',
+                    values: [
+                      {
+                        displayName: 'Column',
+                        name: 'column',
+                        type: 'string',
+                        displayOptions: {
+                          hide: {
+                            function: ['rowNumber', 'rank', 'denseRank'],
+                          },
+                        },
+                        default: '',
+                        description: 'The column to compute the value from',
+                      },
+                      {
+                        displayName: 'Destination Key',
+                        name: 'destinationKey',
+                        type: 'string',
+                        default: 'data',
+                        required: true,
+                        placeholder: 'data',
+                        description:
+                          'The name the JSON key to copy data to. It is also possible to define deep keys by using dot-notation like for example:"level1.level2.newKey".',
+                      },
+                      {
+                        displayName: 'Function',
+                        name: 'function',
+                        type: 'options',
+                        options: [
+                          {
+                            name: 'Dense Rank',
+                            value: 'denseRank',
+                          },
+                          {
+                            name: 'Lag',
+                            value: 'lag',
+                            description: 'The value of a previous row',
+                          },
+                          {
+                            name: 'Lead',
+                            value: 'lead',
+                            description: 'The value of a following row',
+                          },
+                          {
+                            name: 'Moving Average',
+                            value: 'movingAverage',
+                          },
+                          {
+                            name: 'Percent of Total',
+                            value: 'percentOfTotal',
+                          },
+                          {
+                            name: 'Rank',
+                            value: 'rank',
+                          },
+                          {
+                            name: 'Row Number',
+                            value: 'rowNumber',
+                          },
+                          {
+                            name: 'Running Average',
+                            value: 'runningAverage',
+                          },
+                          {
+                            name: 'Running Sum',
+                            value: 'runningSum',
+                          },
+                        ],
+                        default: 'rowNumber',
+                      },
+                      {
+                        displayName: 'Offset',
+                        name: 'offset',
+                        type: 'number',
+                        displayOptions: {
+                          show: {
+                            function: ['lag', 'lead'],
+                          },
+                        },
+                        typeOptions: {
+                          minValue: 1,
+                        },
+                        default: 1,
+                        description: 'How many rows before or after',
+                      },
+                      {
+                        displayName: 'Window Size',
+                        name: 'windowSize',
+                        type: 'number',
+                        displayOptions: {
+                          show: {
+                            function: ['movingAverage'],
+                          },
+                        },
+                        typeOptions: {
+                          minValue: 1,
+                        },
+                        default: 3,
+                        description: 'How many rows up to the current row are averaged',
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                displayName: 'Column',
+                name: 'sourceColumn',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['splitColumn'],
+                  },
+                },
+                default: '',
+                required: true,
+                description: 'The column to split',
+              },
+              {
+                displayName: 'Split By',
+                name: 'splitBy',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['splitColumn'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Delimiter',
+                    value: 'delimiter',
+                  },
+                  {
+                    name: 'Regex',
+                    value: 'regex',
+                  },
+                ],
+                default: 'delimiter',
+                description: 'Whether the separator is a delimiter or a regular expression',
+              },
+              {
+                displayName: 'Separator',
+                name: 'splitSeparator',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['splitColumn'],
+                  },
+                },
+                default: ',',
+                description: 'The delimiter or regular expression between the parts',
+              },
+              {
+                displayName: 'Split Into',
+                name: 'splitInto',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['splitColumn'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Columns',
+                    value: 'columns',
+                  },
+                  {
+                    name: 'Rows',
+                    value: 'rows',
+                  },
+                ],
+                default: 'columns',
+                description: 'Whether the parts become columns or rows',
+              },
+              {
+                displayName: 'Destination Columns',
+                name: 'destinationColumns',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['splitColumn'],
+                    splitInto: ['columns'],
+                  },
+                },
+                default: '',
+                placeholder: 'firstName, lastName',
+                description:
+                  'Comma-separated list of names for the new columns. Missing names are the column name with the part number.',
+              },
+              {
+                displayName: 'Separator',
+                name: 'combineSeparator',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['combineColumns'],
+                  },
+                },
+                default: ' ',
+                description: 'The separator between the values',
+              },
+              {
+                displayName: 'Destination Column',
+                name: 'destinationColumn',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['combineColumns'],
+                  },
+                },
+                default: '',
+                required: true,
+                description: 'The name of the combined column',
+              },
+              {
+                displayName: 'Collapse Into',
+                name: 'collapseInto',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['collapseRows'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Arrays',
+                    value: 'array',
+                  },
+                  {
+                    name: 'Joined Strings',
+                    value: 'joined',
+                  },
+                ],
+                default: 'array',
+                description: 'Whether the other columns become arrays or joined strings',
+              },
+              {
+                displayName: 'Separator',
+                name: 'collapseSeparator',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['collapseRows'],
+                    collapseInto: ['joined'],
+                  },
+                },
+                default: ', ',
+                description: 'The separator between joined values',
+              },
+              {
+                displayName: 'Fill Method',
+                name: 'fillMethod',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['fill'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Column Defaults',
+                    value: 'columnDefaults',
+                    description: 'Fill with a default value of each column',
+                  },
+                  {
+                    name: 'Constant',
+                    value: 'constant',
+                    description: 'Fill with a constant value',
+                  },
+                  {
+                    name: 'Down',
+                    value: 'down',
+                    description: 'Fill with the value of the previous row',
+                  },
+                  {
+                    name: 'None',
+                    value: 'none',
+                    description: 'Only normalize the columns',
+                  },
+                  {
+                    name: 'Up',
+                    value: 'up',
+                    description: 'Fill with the value of the next row',
+                  },
+                ],
+                default: 'down',
+                description: 'How empty cells are filled',
+              },
+              {
+                displayName: 'Fill Columns',
+                name: 'fillColumns',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['fill'],
+                    fillMethod: ['down', 'up', 'constant'],
+                  },
+                },
+                default: '',
+                placeholder: 'group, category',
+                description:
+                  'Comma-separated list of columns to fill. Leave empty to fill all columns.',
+              },
+              {
+                displayName: 'Value',
+                name: 'fillValue',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['fill'],
+                    fillMethod: ['constant'],
+                  },
+                },
+                default: '',
+                description: 'The value for empty cells',
+              },
+              {
+                displayName: 'Column Defaults',
+                name: 'columnDefaults',
+                placeholder: 'Add Column Default',
+                type: 'fixedCollection',
+                typeOptions: {
+                  multipleValues: true,
+                },
+                displayOptions: {
+                  show: {
+                    action: ['fill'],
+                    fillMethod: ['columnDefaults'],
+                  },
+                },
+                description: 'The value for empty cells of each column',
+                default: {},
+                options: [
+                  {
+                    name: 'columnDefault',
+                    displayName: 'Column Default',
+                    values: [
+                      {
+                        displayName: 'Column',
+                        name: 'column',
+                        type: 'string',
+                        default: '',
+                        required: true,
+                      },
+                      {
+                        displayName: 'Value',
+                        name: 'value',
+                        type: 'string',
+                        default: '',
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                displayName: 'Empty Values',
+                name: 'emptyValues',
+                type: 'multiOptions',
+                displayOptions: {
+                  show: {
+                    action: ['fill'],
+                  },
+                  hide: {
+                    fillMethod: ['none'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Empty Strings',
+                    value: 'emptyString',
+                  },
+                  {
+                    name: 'Missing Cells',
+                    value: 'missing',
+                  },
+                  {
+                    name: 'Null Values',
+                    value: 'null',
+                  },
+                ],
+                default: ['emptyString', 'missing', 'null'],
+                description: 'Which cells count as empty',
+              },
+              {
+                displayName: 'Normalize Columns',
+                name: 'normalize',
+                type: 'boolean',
+                displayOptions: {
+                  show: {
+                    action: ['fill'],
+                  },
+                },
+                default: false,
+                description:
+                  'Whether every row gets all columns of the table, remaining missing cells are set to null',
+              },
+              {
+                displayName: 'Header Column',
+                name: 'headerColumn',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['transpose'],
+                  },
+                },
+                default: '',
+                description:
+                  'The column whose values become the new column names. Leave empty to use the row indexes.',
+              },
+              {
+                displayName: 'Field Column',
+                name: 'fieldColumn',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['transpose'],
+                  },
+                },
+                default: '',
+                placeholder: 'field',
+                description:
+                  'The column for the former column names. Leave empty to omit the former column names.',
+              },
+              {
+                displayName: 'Binary Data',
+                name: 'transposeBinary',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['transpose'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Drop',
+                    value: 'none',
+                  },
+                  {
+                    name: 'Keep First Row',
+                    value: 'first',
+                    description: 'Every row gets the binary data of the first row',
+                  },
+                  {
+                    name: 'Merge All Rows',
+                    value: 'merge',
+                    description:
+                      'Every row gets the binary data of all rows, duplicate keys get the row index as suffix',
+                  },
+                ],
+                default: 'none',
+                description: 'What happens with the binary data of the rows',
+              },
+              {
+                displayName: 'Column',
+                name: 'splitByColumn',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['splitByValue'],
+                  },
+                },
+                default: '',
+                required: true,
+                description: 'The column whose values split the rows',
+              },
+              {
+                displayName: 'Mode',
+                name: 'splitMode',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['splitByValue'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Groups',
+                    value: 'groups',
+                    description: 'Emit one row for each value with the rows as an array',
+                  },
+                  {
+                    name: 'Outputs',
+                    value: 'outputs',
+                    description: 'Route the rows to outputs by rules',
+                  },
+                ],
+                default: 'outputs',
+                description: 'How the rows are split',
+              },
+              {
+                displayName: 'Rules',
+                name: 'splitRules',
+                placeholder: 'Add Rule',
+                type: 'fixedCollection',
+                typeOptions: {
+                  multipleValues: true,
+                  sortable: true,
+                },
+                displayOptions: {
+                  show: {
+                    action: ['splitByValue'],
+                    splitMode: ['outputs'],
+                  },
+                },
+                description:
+                  'The first matching rule decides the output, rows without a matching rule stay in the table',
+                default: {},
+                options: [
+                  {
+                    name: 'rule',
+                    displayName: 'Rule',
+                    values: [
+                      {
+                        displayName: 'Operation',
+                        name: 'operation',
+                        type: 'options',
+                        noDataExpression: true,
+                        options: [
+                          {
+                            name: 'Contains',
+                            value: 'contains',
+                            action: 'Check if the column contains the value',
+                          },
+                          {
+                            name: 'Equals',
+                            value: 'equals',
+                            action: 'Check if the column equals the value',
+                          },
+                          {
+                            name: 'Greater Than',
+                            value: 'greaterThan',
+                            action: 'Check if the column is greater than the value',
+                          },
+                          {
+                            name: 'Is Empty',
+                            value: 'isEmpty',
+                            action: 'Check if the column is empty',
+                          },
+                          {
+                            name: 'Is In List',
+                            value: 'isInList',
+                            description: 'Whether the value is in a comma-separated list',
+                            action: 'Check if the column is in a comma separated list',
+                          },
+                          {
+                            name: 'Is Not Empty',
+                            value: 'isNotEmpty',
+                            action: 'Check if the column is not empty',
+                          },
+                          {
+                            name: 'Less Than',
+                            value: 'lessThan',
+                            action: 'Check if the column is less than the value',
+                          },
+                          {
+                            name: 'Not Equals',
+                            value: 'notEquals',
+                            action: 'Check if the column does not equal the value',
+                          },
+                          {
+                            name: 'Regex',
+                            value: 'regex',
+                            action: 'Check if the column matches a regular expression',
+                          },
+                        ],
+                        default: 'equals',
+                        description: 'How to check the column',
+                      },
+                      {
+                        displayName: 'Value',
+                        name: 'value',
+                        type: 'string',
+                        displayOptions: {
+                          hide: {
+                            operation: ['isEmpty', 'isNotEmpty'],
+                          },
+                        },
+                        default: '',
+                        description: 'The value to compare with',
+                      },
+                      {
+                        displayName: 'Output',
+                        name: 'output',
+                        type: 'options',
+                        options: [
+                          {
+                            name: 'Output 1',
+                            value: 1,
+                          },
+                          {
+                            name: 'Output 2',
+                            value: 2,
+                          },
+                          {
+                            name: 'Output 3',
+                            value: 3,
+                          },
+                          {
+                            name: 'Table',
+                            value: 0,
+                          },
+                        ],
+                        default: 1,
+                        description: 'The output for matching rows',
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                displayName: 'Rows Key',
+                name: 'rowsKey',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['splitByValue'],
+                    splitMode: ['groups'],
+                  },
+                },
+                default: 'rows',
+                required: true,
+                description:
+                  'The name the JSON key to copy the rows to. It is also possible to define deep keys by using dot-notation like for example:"level1.level2.newKey".',
+              },
+              {
+                displayName: 'Compare Columns',
+                name: 'compareColumns',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['compare'],
+                  },
+                },
+                default: '',
+                description:
+                  'Comma-separated list of columns to compare. Leave empty to compare all columns except the key columns.',
+              },
+              {
+                displayName: 'Output Mode',
+                name: 'compareMode',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['compare'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'Separate Outputs',
+                    value: 'outputs',
+                    description:
+                      'Send added rows to the table and removed, changed and unchanged rows to their own outputs',
+                  },
+                  {
+                    name: 'Status Column',
+                    value: 'status',
+                    description: 'Keep all rows in the table and tag them with a status column',
+                  },
+                ],
+                default: 'status',
+                description: 'How the compared rows are returned',
+              },
+              {
+                displayName: 'Status Key',
+                name: 'statusKey',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['compare'],
+                    compareMode: ['status'],
+                  },
+                },
+                default: 'status',
+                required: true,
+                description:
+                  'The name the JSON key to write the status (added, removed, changed or unchanged) to',
+              },
+              {
+                displayName: 'Changes Key',
+                name: 'changesKey',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['compare'],
+                  },
+                },
+                default: 'changes',
+                required: true,
+                description:
+                  'The name the JSON key to write the before and after values of changed columns to. It is also possible to define deep keys by using dot-notation like for example:"level1.level2.newKey".',
+              },
+              {
+                displayName: 'Header Row',
+                name: 'headerRow',
+                type: 'number',
+                displayOptions: {
+                  show: {
+                    action: ['promoteHeader'],
+                  },
+                },
+                typeOptions: {
+                  minValue: 0,
+                },
+                default: 0,
+                description:
+                  'The index of the first header row, rows above it like titles are skipped',
+              },
+              {
+                displayName: 'Header Rows',
+                name: 'headerRows',
+                type: 'number',
+                displayOptions: {
+                  show: {
+                    action: ['promoteHeader'],
+                  },
+                },
+                typeOptions: {
+                  minValue: 1,
+                },
+                default: 1,
+                description:
+                  'How many header rows are merged into combined names. Empty cells of upper header rows are filled by the cell on their left like merged cells.',
+              },
+              {
+                displayName: 'Separator',
+                name: 'headerSeparator',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['promoteHeader'],
+                  },
+                },
+                default: ' ',
+                description: 'The separator between the names of multiple header rows',
+              },
+              {
+                displayName: 'Empty Name',
+                name: 'emptyName',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['promoteHeader'],
+                  },
+                },
+                default: '{index}',
+                description:
+                  'The name of columns with an empty header, {index} is replaced by the column index',
+              },
+              {
+                displayName: 'Duplicate Name',
+                name: 'duplicateName',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['promoteHeader'],
+                  },
+                },
+                default: '{name}_{counter}',
+                description:
+                  'The name of columns with a duplicate header, {name} is replaced by the header and {counter} by a counter',
+              },
+              {
+                displayName: 'Separator',
+                name: 'headerSeparator',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['demoteHeader'],
+                  },
+                },
+                default: '',
+                description:
+                  'The separator to split the column names into multiple header rows. Leave empty for a single header row.',
+              },
+              {
+                displayName: 'Binary Data',
+                name: 'binaryPolicy',
+                type: 'options',
+                displayOptions: {
+                  hide: {
+                    action: ['exportTable', 'join', 'transpose', ...aggregateActions],
+                  },
+                },
+                options: binaryPolicyOptions,
+                default: 'keep',
+                description: 'How the binary data of the rows is handled',
+              },
+              {
+                displayName: 'Binary Data',
+                name: 'binaryPolicy',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: aggregateActions,
+                  },
+                },
+                options: binaryPolicyOptions,
+                default: 'drop',
+                description: 'How the binary data of the aggregated rows is handled',
+              },
+              {
+                displayName: 'Key Column',
+                name: 'lookupColumn',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['lookup'],
+                  },
+                },
+                default: '',
+                required: true,
+                description: 'The column with the values to look up',
+              },
+              {
+                displayName: 'Destination Column',
+                name: 'lookupDestination',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['lookup'],
+                  },
+                },
+                default: '',
+                description:
+                  'The column to write the found values to. Leave empty to replace the key column.',
+              },
+              {
+                displayName: 'Mapping Source',
+                name: 'lookupSource',
+                type: 'options',
+                displayOptions: {
+                  show: {
+                    action: ['lookup'],
+                  },
+                },
+                options: [
+                  {
+                    name: 'JSON',
+                    value: 'json',
+                    description: 'A JSON object with the keys and values, e.g. from an expression',
+                  },
+                  {
+                    name: 'Second Input',
+                    value: 'input',
+                    description: 'The rows of the second input',
+                  },
+                  {
+                    name: 'Table',
+                    value: 'table',
+                    description: 'A table of keys and values',
+                  },
+                ],
+                default: 'table',
+                description: 'Where the mapping comes from',
+              },
+              {
+                displayName: 'Mapping',
+                name: 'lookupTable',
+                placeholder: 'Add Entry',
+                type: 'fixedCollection',
+                typeOptions: {
+                  multipleValues: true,
+                },
+                displayOptions: {
+                  show: {
+                    action: ['lookup'],
+                    lookupSource: ['table'],
+                  },
+                },
+                description: 'The keys and their values',
+                default: {},
+                options: [
+                  {
+                    name: 'entry',
+                    displayName: 'Entry',
+                    values: [
+                      {
+                        displayName: 'Key',
+                        name: 'key',
+                        type: 'string',
+                        default: '',
+                      },
+                      {
+                        displayName: 'Value',
+                        name: 'value',
+                        type: 'string',
+                        default: '',
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                displayName: 'Mapping',
+                name: 'lookupJson',
+                type: 'json',
+                displayOptions: {
+                  show: {
+                    action: ['lookup'],
+                    lookupSource: ['json'],
+                  },
+                },
+                default: '{}',
+                description: 'A JSON object with the keys and their values',
+              },
+              {
+                displayName: 'Second Key Column',
+                name: 'lookupKeyColumn',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['lookup'],
+                    lookupSource: ['input'],
+                  },
+                },
+                default: '',
+                required: true,
+                description: 'The column of the second input with the keys',
+              },
+              {
+                displayName: 'Second Value Column',
+                name: 'lookupValueColumn',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['lookup'],
+                    lookupSource: ['input'],
+                  },
+                },
+                default: '',
+                description:
+                  'The column of the second input with the values. Leave empty to use the whole row.',
+              },
+              {
+                displayName: 'Use Default Value',
+                name: 'useDefaultValue',
+                type: 'boolean',
+                displayOptions: {
+                  show: {
+                    action: ['lookup'],
+                  },
+                },
+                default: false,
+                description:
+                  'Whether to use a default value for keys which are not found. Otherwise the key is kept when replacing or null is used when adding a column.',
+              },
+              {
+                displayName: 'Default Value',
+                name: 'defaultValue',
+                type: 'string',
+                displayOptions: {
+                  show: {
+                    action: ['lookup'],
+                    useDefaultValue: [true],
+                  },
+                },
+                default: '',
+                description: 'The value for keys which are not found',
+              },
+              {
+                displayName: 'Case Insensitive',
+                name: 'caseInsensitive',
+                type: 'boolean',
+                displayOptions: {
+                  show: {
+                    action: ['lookup'],
+                  },
+                },
+                default: false,
+                description: 'Whether keys are matched case-insensitive',
+              },
+            ],
+          },
+        ],
+      },
+      {
+        displayName: 'Options',
+        name: 'options',
+        type: 'collection',
+        placeholder: 'Add Option',
+        default: {},
+        options: [
+          {
+            displayName: 'Batch Size',
+            name: 'batchSize',
+            type: 'number',
+            typeOptions: {
+              minValue: 0,
+            },
+            default: 0,
+            description:
+              'How many rows of each output are packed into one item. The rows are packed after all transformations ran, so the table is still processed as a whole. 0 emits each row as its own item.',
+          },
+          {
+            displayName: 'Batch Key',
+            name: 'batchKey',
+            type: 'string',
+            default: 'rows',
+            description:
+              'The name the JSON key to copy the rows of a batch to. It is also possible to define deep keys by using dot-notation like for example:"level1.level2.newKey".',
+          },
+        ],
+      },
+    ],
+  };
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    let returnData = this.getInputData().map(
+      (item, index): INodeExecutionData => ({ ...item, pairedItem: { item: index } }),
+    );
+    const branchData = new Map<string, INodeExecutionData[]>();
+    const route = (name: string, items: INodeExecutionData[]) => {
+      let branch = branchData.get(name);
+      if (branch === undefined) branchData.set(name, (branch = []));
+      for (const item of items) branch.push(item);
+    };
+    let secondData: INodeExecutionData[] | undefined;
+    const getSecondData = () =>
+      (secondData ??= ((this.getInputData(1) as INodeExecutionData[] | undefined) ?? []).map(
+        (item, index): INodeExecutionData => ({ ...item, pairedItem: { item: index, input: 1 } }),
+      ));
+    //let returnData: INodeExecutionData[] = items.map(item => {
+    //  const newItem: INodeExecutionData = {
+    //    json: JSON.parse(JSON.stringify(item.json)) as IDataObject,
+    //  };
+    //  if (item.binary !== undefined) {
+    //    newItem.binary = {};
+    //    Object.assign(newItem.binary, item.binary);
+    //  }
+    //  return newItem;
+    //});
+
+    const transformations =
+      (this.getNodeParameter('transformations.transformation', 0, []) as
+        | INodeParameters[]
+        | null) ?? [];
+
+    const parameterOf =
+      (step: number) =>
+      (name: string, index = 0, fallbackValue?: unknown) =>
+        this.getNodeParameter(
+          `transformations.transformation[${step}].${name}`,
+          index,
+          fallbackValue,
+        );
+
+    // Transformations which only depend on the row itself are run row by row, so consecutive ones
+    // are fused into a single pass without building the whole table between them.
+    const createRowStep = (step: number): RowStep | undefined => {
+      const parameter = parameterOf(step);
+      let transform: (
+        items: INodeExecutionData[],
+        index: number,
+        resolve: (items: INodeExecutionData[]) => INodeExecutionData[],
+      ) => INodeExecutionData[];
+
+      switch (transformations[step].action) {
+        case 'navigate':
+          if (parameter('navigateType') !== 'col') return undefined;
+          transform = (items, index) =>
+            navigateIntoCol(
+              items,
+              () => parameter('col', index) as string,
+              () => parameter('expand', index) as boolean,
+              () => parameter('loopArray', index) as boolean,
+            );
+          break;
+        case 'filter': {
+          const conditions = (parameter('conditions.condition', 0, []) as INodeParameters[]).map(
+            (condition): FilterCondition => ({
+              column: condition.column as string,
+              operation: condition.operation as FilterOperation,
+              value: (condition.value as string | undefined) ?? '',
+            }),
+          );
+          const combine = parameter('combineConditions') === 'or' ? 'or' : 'and';
+          const routeRejected = parameter('routeRejected') as boolean;
+          transform = (items, _index, resolve) => {
+            const [keptItems, rejectedItems] = filter(items, conditions, combine);
+            if (routeRejected) route('Rejected', resolve(rejectedItems));
+            return keptItems;
+          };
+          break;
+        }
+        case 'dropColumns': {
+          const columns = splitColumnNames(parameter('columns') as string);
+          transform = (items) => dropColumns(items, columns);
+          break;
+        }
+        case 'renameColumns':
+          if (parameter('renameMode') === 'regex') {
+            const pattern = parameter('pattern') as string;
+            const replacement = parameter('replacement') as string;
+            transform = (items) => renameColumnsByRegex(items, pattern, replacement);
+          } else {
+            const renames = (parameter('renames.rename', 0, []) as INodeParameters[]).map(
+              (rename) => ({
+                from: rename.from as string,
+                to: rename.to as string,
+              }),
+            );
+            transform = (items) => renameColumns(items, renames);
+          }
+          break;
+        case 'addColumn': {
+          const columnName = parameter('columnName') as string;
+          const template = parameter('template') as string;
+          transform = (items) => addColumn(items, columnName, template);
+          break;
+        }
+        case 'combineColumns': {
+          const columns = splitColumnNames(parameter('columns') as string);
+          const separator = parameter('combineSeparator') as string;
+          const destinationColumn = parameter('destinationColumn') as string;
+          transform = (items) => combineColumns(items, columns, separator, destinationColumn);
+          break;
+        }
+        case 'flatten': {
+          const separator = parameter('flattenSeparator') as string;
+          const maxDepth = parameter('maxDepth') as number;
+          const flattenArrays = parameter('flattenArrays') as boolean;
+          transform = (items) => flatten(items, separator, maxDepth, flattenArrays);
+          break;
+        }
+        case 'unflatten': {
+          const separator = parameter('flattenSeparator') as string;
+          transform = (items) => unflatten(items, separator);
+          break;
+        }
+        default:
+          return undefined;
+      }
+
+      const binaryPolicy = parameter('binaryPolicy', 0, 'keep') as BinaryPolicy;
+      return (item, index) => {
+        const resolve = (items: INodeExecutionData[]) =>
+          resolvePairedItems(items, [[item]], binaryPolicy);
+        return resolve(transform([{ ...item, pairedItem: { item: 0 } }], index, resolve));
+      };
+    };
+
+    try {
+      for (let step = 0; step < transformations.length; step++) {
+        const rowSteps: RowStep[] = [];
+        let rowStep = createRowStep(step);
+        while (rowStep !== undefined) {
+          rowSteps.push(rowStep);
+          rowStep = step + 1 < transformations.length ? createRowStep(step + 1) : undefined;
+          if (rowStep !== undefined) step++;
+        }
+        if (rowSteps.length > 0) {
+          returnData = runRowSteps(returnData, rowSteps);
+          continue;
+        }
+
+        const parameter = parameterOf(step);
+        const action = transformations[step].action as string;
+        const previousData = returnData;
+        const binaryPolicy = ['join', 'transpose', 'exportTable'].includes(action)
+          ? undefined
+          : (parameter(
+              'binaryPolicy',
+              0,
+              aggregateActions.includes(action) ? 'drop' : 'keep',
+            ) as BinaryPolicy);
+        const resolve = (items: INodeExecutionData[]) =>
+          resolvePairedItems(items, [previousData, secondData ?? []], binaryPolicy);
+        returnData = returnData.map(
+          (item, index): INodeExecutionData => ({ ...item, pairedItem: { item: index } }),
+        );
+
+        switch (action) {
+          case 'transpose':
+            returnData = transpose(
+              returnData,
+              parameter('headerColumn') as string,
+              parameter('fieldColumn') as string,
+              parameter('transposeBinary') as 'none' | 'first' | 'merge',
+            );
+            break;
+          case 'navigate':
+            switch (parameter('navigateType')) {
+              case 'row':
+                returnData = navigateIntoRow(
+                  returnData,
+                  parameter('row') as number,
+                  parameter('col') as string,
+                  (index) => parameter('expand', index) as boolean,
+                  (index) => parameter('loopArray', index) as boolean,
+                );
+                break;
+              case 'cell':
+                returnData = navigateIntoCell(
+                  returnData,
+                  parameter('row') as number,
+                  (index) => parameter('col', index) as string,
+                  (index) => parameter('expand', index) as boolean,
+                  (index) => parameter('loopArray', index) as boolean,
+                );
+                break;
+              default:
+                throw new NodeOperationError(this.getNode(), 'row, col or cell are valid options');
+            }
+            break;
+          case 'unpivot':
+            returnData = unpivot(
+              returnData,
+              splitColumnNames(parameter('idColumns') as string),
+              splitColumnNames(parameter('valueColumns') as string),
+              parameter('keyName') as string,
+              parameter('valueName') as string,
+            );
+            break;
+          case 'pivot': {
+            const aggregation = parameter('aggregation') as Aggregation;
+            if (!['first', 'last', 'sum', 'count', 'list'].includes(aggregation))
+              throw new NodeOperationError(
+                this.getNode(),
+                'first, last, sum, count or list are valid options',
+              );
+            returnData = pivot(
+              returnData,
+              parameter('keyColumn') as string,
+              parameter('valueColumn') as string,
+              aggregation,
+            );
+            break;
+          }
+          case 'groupBy': {
+            const aggregations = (
+              parameter('aggregations.aggregation', 0, []) as INodeParameters[]
+            ).map(
+              (aggregation): GroupAggregation => ({
+                aggregation: aggregation.aggregation as Aggregation,
+                column: (aggregation.column as string | undefined) ?? '',
+                destinationKey: aggregation.destinationKey as string,
+                separator: (aggregation.separator as string | undefined) ?? ', ',
+              }),
+            );
+            returnData = groupBy(
+              returnData,
+              splitColumnNames(parameter('groupColumns') as string),
+              aggregations,
+            );
+            break;
+          }
+          case 'join': {
+            const leftKeys = splitColumnNames(parameter('leftKeys') as string);
+            const rightKeys = splitColumnNames(parameter('rightKeys') as string);
+            returnData = join(
+              returnData,
+              getSecondData(),
+              parameter('joinType') as JoinType,
+              leftKeys,
+              rightKeys.length > 0 ? rightKeys : leftKeys,
+              {
+                mode: parameter('collision') === 'prefix' ? 'prefix' : 'suffix',
+                leftAffix: parameter('leftAffix') as string,
+                rightAffix: parameter('rightAffix') as string,
+              },
+              parameter('joinBinary') as JoinBinary,
+            );
+            break;
+          }
+          case 'demoteHeader':
+            returnData = demoteHeader(returnData, parameter('headerSeparator', 0, '') as string);
+            break;
+          case 'promoteHeader': {
+            const options: HeaderOptions = {
+              headerRow: parameter('headerRow', 0, 0) as number,
+              headerRows: parameter('headerRows', 0, 1) as number,
+              separator: parameter('headerSeparator', 0, ' ') as string,
+              emptyName: parameter('emptyName', 0, '{index}') as string,
+              duplicateName: parameter('duplicateName', 0, '{name}_{counter}') as string,
+            };
+            returnData = promoteHeader(returnData, options);
+            break;
+          }
+          case 'count': {
+            const countType = parameter('countType');
+            if (countType === 'profile') {
+              returnData = profile(returnData, parameter('topValues') as number, {
+                numberLocale: 'en-US',
+                dateFormat: '',
+                onError: 'null',
+              });
+              break;
+            }
+            if (countType != 'rows' && countType != 'cols' && countType != 'cells')
+              throw new NodeOperationError(
+                this.getNode(),
+                'rows, cols, cells or profile are valid options',
+              );
+            returnData = count(
+              returnData,
+              countType,
+              (index) => parameter('destinationKey', index) as string,
+            );
+            break;
+          }
+          case 'sort': {
+            const sortKeys = (parameter('sortKeys.sortKey', 0, []) as INodeParameters[]).map(
+              (sortKey): SortKey => ({
+                column: sortKey.column as string,
+                direction: sortKey.direction === 'descending' ? 'descending' : 'ascending',
+                comparison: sortKey.comparison as SortKey['comparison'],
+                nulls: sortKey.nulls === 'first' ? 'first' : 'last',
+              }),
+            );
+            returnData = sort(returnData, sortKeys);
+            break;
+          }
+          case 'removeDuplicates':
+            returnData = removeDuplicates(
+              returnData,
+              splitColumnNames(parameter('compareColumns') as string),
+              parameter('keep') === 'last' ? 'last' : 'first',
+            );
+            break;
+          case 'limit': {
+            const limitMode = parameter('limitMode');
+            if (limitMode != 'head' && limitMode != 'tail' && limitMode != 'offset')
+              throw new NodeOperationError(
+                this.getNode(),
+                'head, tail or offset are valid options',
+              );
+            returnData = limit(
+              returnData,
+              limitMode,
+              parameter('limit') as number,
+              parameter('offset', 0, 0) as number,
+            );
+            break;
+          }
+          case 'selectColumns':
+            returnData = selectColumns(
+              returnData,
+              splitColumnNames(parameter('columns') as string),
+            );
+            break;
+          case 'reorderColumns':
+            returnData = reorderColumns(
+              returnData,
+              splitColumnNames(parameter('columnOrder') as string),
+            );
+            break;
+          case 'parseCsv': {
+            const parsedData: INodeExecutionData[] = [];
+            for (const [index, item] of returnData.entries()) {
+              let text: string;
+              if (parameter('csvSource') === 'json') {
+                text = String(item.json[parameter('csvField') as string] ?? '');
+              } else {
+                const binaryPropertyName = parameter('binaryPropertyName') as string;
+                const binaryData = item.binary?.[binaryPropertyName];
+                // The binary data is read from the input item it came from, earlier steps may have
+                // moved the row or renamed the key of the binary data.
+                let source: { itemIndex: number; key: string } | undefined;
+                for (const { item: itemIndex, input } of ([] as IPairedItemData[]).concat(
+                  (previousData[index].pairedItem ?? []) as IPairedItemData | IPairedItemData[],
+                )) {
+                  if (binaryData === undefined || (input ?? 0) !== 0) continue;
+                  const key = Object.entries(this.getInputData()[itemIndex]?.binary ?? {}).find(
+                    ([, data]) =>
+                      data === binaryData || (data.id !== undefined && data.id === binaryData.id),
+                  )?.[0];
+                  if (key !== undefined) {
+                    source = { itemIndex, key };
+                    break;
+                  }
+                }
+                if (source === undefined)
+                  throw new NodeOperationError(
+                    this.getNode(),
+                    `No binary data property "${binaryPropertyName}" exists on item!`,
+                  );
+                text = (
+                  await this.helpers.getBinaryDataBuffer(source.itemIndex, source.key)
+                ).toString(parameter('encoding') as BufferEncoding);
+              }
+              const rows = parseCsv(
+                text,
+                parameter('delimiter') as string,
+                parameter('quote') as string,
+                parameter('escape') as string,
+                parameter('firstRowIsHeader') as boolean,
+              );
+              for (const row of rows) parsedData.push({ ...row, pairedItem: item.pairedItem });
+            }
+            returnData = parsedData;
+            break;
+          }
+          case 'exportTable': {
+            const exportFormat = parameter('exportFormat') as ExportFormat;
+            const file = exportTable(
+              returnData,
+              exportFormat,
+              parameter('includeHeader', 0, true) as boolean,
+              parameter('delimiter', 0, ',') as string,
+              parameter('dateFormat', 0, '') as string,
+            );
+            const fileName = parameter('fileName') as string;
+            returnData = [
+              {
+                json: {},
+                pairedItem: returnData.map((_item, index) => ({ item: index })),
+                binary: {
+                  [parameter('binaryPropertyName') as string]: await this.helpers.prepareBinaryData(
+                    file.data,
+                    fileName !== '' ? fileName : `table.${file.fileExtension}`,
+                    file.mimeType,
+                  ),
+                },
+              },
+            ];
+            break;
+          }
+          case 'convertTypes': {
+            const onError = parameter('onError');
+            if (onError != 'fail' && onError != 'null' && onError != 'keep')
+              throw new NodeOperationError(this.getNode(), 'fail, null or keep are valid options');
+            const options: ConversionOptions = {
+              numberLocale: parameter('numberLocale') as string,
+              dateFormat: parameter('dateFormat') as string,
+              onError,
+            };
+            const schema =
+              parameter('convertMode') === 'schema'
+                ? (parameter('schema.column', 0, []) as INodeParameters[]).map((column) => ({
+                    column: column.column as string,
+                    type: column.type as ColumnType,
+                  }))
+                : inferSchema(returnData, parameter('sampleSize') as number, options);
+            returnData = convertTypes(returnData, schema, options);
+            break;
+          }
+          case 'validate': {
+            const rules = (parameter('rules.rule', 0, []) as INodeParameters[]).map(
+              (rule): ValidationRule => ({
+                column: rule.column as string,
+                rule: rule.rule as ValidationRule['rule'],
+                type: (rule.type as ColumnType | undefined) ?? 'string',
+                value: (rule.value as string | undefined) ?? '',
+              }),
+            );
+            const [validItems, invalidItems] = validate(returnData, rules);
+            returnData = validItems;
+            route('Invalid', resolve(invalidItems));
+            break;
+          }
+          case 'window': {
+            const orderBy = parameter('orderBy') as string;
+            const functions = (
+              parameter('windowFunctions.windowFunction', 0, []) as INodeParameters[]
+            ).map(
+              (windowFunction): WindowFunction => ({
+                function: windowFunction.function as WindowFunction['function'],
+                column: (windowFunction.column as string | undefined) ?? '',
+                destinationKey: windowFunction.destinationKey as string,
+                offset: (windowFunction.offset as number | undefined) ?? 1,
+                windowSize: (windowFunction.windowSize as number | undefined) ?? 3,
+              }),
+            );
+            returnData = applyWindowFunctions(
+              returnData,
+              splitColumnNames(parameter('partitionColumns') as string),
+              orderBy !== ''
+                ? {
+                    column: orderBy,
+                    direction:
+                      parameter('orderDirection') === 'descending' ? 'descending' : 'ascending',
+                    comparison: parameter('orderComparison') as SortKey['comparison'],
+                    nulls: 'last',
+                  }
+                : undefined,
+              functions,
+            );
+            break;
+          }
+          case 'splitColumn':
+            returnData = splitColumn(
+              returnData,
+              parameter('sourceColumn') as string,
+              parameter('splitSeparator') as string,
+              parameter('splitBy') === 'regex',
+              parameter('splitInto') === 'rows' ? 'rows' : 'columns',
+              splitColumnNames(parameter('destinationColumns', 0, '') as string),
+            );
+            break;
+          case 'collapseRows':
+            returnData = collapseRows(
+              returnData,
+              splitColumnNames(parameter('groupColumns') as string),
+              parameter('collapseInto') === 'joined' ? 'joined' : 'array',
+              parameter('collapseSeparator', 0, ', ') as string,
+            );
+            break;
+          case 'fill': {
+            const fillMethod = parameter('fillMethod');
+            const columnDefaults: IDataObject = {};
+            (parameter('columnDefaults.columnDefault', 0, []) as INodeParameters[]).forEach(
+              (columnDefault) =>
+                (columnDefaults[columnDefault.column as string] = columnDefault.value),
+            );
+            returnData = fill(
+              returnData,
+              fillMethod === 'columnDefaults'
+                ? Object.keys(columnDefaults)
+                : splitColumnNames(parameter('fillColumns', 0, '') as string),
+              fillMethod === 'down' || fillMethod === 'up' ? fillMethod : 'value',
+              fillMethod === 'constant'
+                ? () => parameter('fillValue')
+                : (column) => columnDefaults[column],
+              fillMethod === 'none'
+                ? []
+                : (parameter('emptyValues') as Array<'missing' | 'null' | 'emptyString'>),
+              parameter('normalize') as boolean,
+            );
+            break;
+          }
+          case 'splitByValue': {
+            const column = parameter('splitByColumn') as string;
+            if (parameter('splitMode') === 'groups') {
+              returnData = groupBy(
+                returnData,
+                [column],
+                [
+                  {
+                    aggregation: 'list',
+                    column: '',
+                    destinationKey: parameter('rowsKey') as string,
+                    separator: '',
+                  },
+                ],
+              );
+              break;
+            }
+            const rules = (parameter('splitRules.rule', 0, []) as INodeParameters[]).map(
+              (rule): SplitRule => ({
+                operation: rule.operation as FilterOperation,
+                value: (rule.value as string | undefined) ?? '',
+                output: rule.output as number,
+              }),
+            );
+            const [tableItems, ...branchItems] = splitByValue(
+              returnData,
+              column,
+              rules,
+              outputNames.filter((name) => name.startsWith('Output ')).length + 1,
+            );
+            returnData = tableItems;
+            branchItems.forEach((items, index) => route(`Output ${index + 1}`, resolve(items)));
+            break;
+          }
+          case 'compare': {
+            const keys = splitColumnNames(parameter('leftKeys') as string);
+            const previousKeys = splitColumnNames(parameter('rightKeys') as string);
+            const statusMode = parameter('compareMode') === 'status';
+            const result = compare(
+              returnData,
+              getSecondData(),
+              keys,
+              previousKeys.length > 0 ? previousKeys : keys,
+              splitColumnNames(parameter('compareColumns') as string),
+              statusMode ? (parameter('statusKey') as string) : '',
+              parameter('changesKey') as string,
+            );
+            if (statusMode) {
+              returnData = [
+                ...result.added,
+                ...result.changed,
+                ...result.unchanged,
+                ...result.removed,
+              ];
+              break;
+            }
+            returnData = result.added;
+            (['removed', 'changed', 'unchanged'] as CompareStatus[]).forEach((status) =>
+              route(upperFirst(status), resolve(result[status])),
+            );
+            break;
+          }
+          case 'lookup': {
+            let entries: [unknown, unknown][];
+            switch (parameter('lookupSource')) {
+              case 'json': {
+                let mapping = parameter('lookupJson') as unknown;
+                if (typeof mapping === 'string') mapping = JSON.parse(mapping);
+                if (!isPlainObject(mapping))
+                  throw new NodeOperationError(
+                    this.getNode(),
+                    'The mapping has to be a JSON object!',
+                  );
+                entries = Object.entries(mapping as IDataObject);
+                break;
+              }
+              case 'input': {
+                const keyColumn = parameter('lookupKeyColumn') as string;
+                const valueColumn = parameter('lookupValueColumn', 0, '') as string;
+                entries = getSecondData().map(({ json }) => [
+                  json[keyColumn],
+                  valueColumn === '' ? json : json[valueColumn] ?? null,
+                ]);
+                break;
+              }
+              default:
+                entries = (parameter('lookupTable.entry', 0, []) as INodeParameters[]).map(
+                  ({ key, value }) => [key, value],
+                );
+            }
+            returnData = lookup(
+              returnData,
+              parameter('lookupColumn') as string,
+              parameter('lookupDestination') as string,
+              entries,
+              parameter('useDefaultValue') ? parameter('defaultValue') : undefined,
+              parameter('caseInsensitive') as boolean,
+            );
+            break;
+          }
+          default:
+            throw new NodeOperationError(this.getNode(), 'transpose or navigate are valid options');
+        }
+        returnData = resolve(returnData);
       }
+    } catch (error) {
+      // The transformations work on the whole table, so every input item gets the error.
+      if (this.continueOnFail())
+        return [
+          this.getInputData().map(
+            (item, index): INodeExecutionData => ({
+              json: { error: (error as Error).message },
+              pairedItem: { item: index },
+            }),
+          ),
+          ...outputNames.slice(1).map(() => []),
+        ];
+      if (error instanceof NodeOperationError) throw error;
+      throw new NodeOperationError(this.getNode(), error as Error);
     }
 
-    return this.prepareOutputData(returnData);
+    const batchSize = this.getNodeParameter('options.batchSize', 0, 0) as number;
+    const batchKey = this.getNodeParameter('options.batchKey', 0, 'rows') as string;
+    return outputNames
+      .map((name, index) => (index === 0 ? returnData : branchData.get(name) ?? []))
+      .map((items) => (batchSize > 0 ? batch(items, batchSize, batchKey) : items));
   }
 }
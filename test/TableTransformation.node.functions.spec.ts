@@ -0,0 +1,843 @@
+import {
+  addColumn,
+  applyWindowFunctions,
+  batch,
+  collapseRows,
+  combineColumns,
+  compare,
+  convertTypes,
+  count,
+  demoteHeader,
+  dropColumns,
+  exportTable,
+  fill,
+  filter,
+  flatten,
+  groupBy,
+  inferSchema,
+  join,
+  limit,
+  lookup,
+  navigateIntoCell,
+  navigateIntoCol,
+  navigateIntoRow,
+  parseCsv,
+  pivot,
+  profile,
+  promoteHeader,
+  removeDuplicates,
+  renameColumns,
+  renameColumnsByRegex,
+  reorderColumns,
+  runRowSteps,
+  selectColumns,
+  sort,
+  splitByValue,
+  splitColumn,
+  transpose,
+  unflatten,
+  unpivot,
+  validate,
+} from '../nodes/TableTransformation/TableTransformation.node.functions';
+import { binaryFile, headerTable, nestedTable, people, rows, sales, table } from './fixtures';
+
+const always = (value: boolean) => () => value;
+
+describe('transpose', () => {
+  it('swaps rows and columns keyed by row index', () => {
+    expect(rows(transpose(table({ a: 1, b: 2 }, { a: 3, b: 4 })))).toEqual([
+      { 0: 1, 1: 3 },
+      { 0: 2, 1: 4 },
+    ]);
+  });
+
+  it('uses a header column and a field column', () => {
+    expect(rows(transpose(table({ k: 'x', v: 1 }, { k: 'y', v: 2 }), 'k', 'field'))).toEqual([
+      { field: 'v', x: 1, y: 2 },
+    ]);
+  });
+
+  it('merges the binary data of the source rows', () => {
+    const items = table({ a: 1 }, { a: 2 });
+    items[0].binary = { data: binaryFile('first.txt') };
+    items[1].binary = { data: binaryFile('second.txt') };
+    const [item] = transpose(items, '', '', 'merge');
+    expect(Object.keys(item.binary ?? {})).toHaveLength(2);
+    expect(transpose(items)[0].binary).toBeUndefined();
+  });
+});
+
+describe('unpivot and pivot', () => {
+  it('turns value columns into key/value rows', () => {
+    expect(rows(unpivot(table({ id: 1, a: 2, b: 3 }), ['id'], ['a', 'b'], 'key', 'value'))).toEqual(
+      [
+        { id: 1, key: 'a', value: 2 },
+        { id: 1, key: 'b', value: 3 },
+      ],
+    );
+  });
+
+  it('spreads keys into columns and aggregates duplicates', () => {
+    expect(rows(pivot(sales(), 'month', 'revenue', 'sum'))).toEqual([
+      { region: 'north', jan: 10, feb: 20 },
+      { region: 'south', jan: 5, feb: 20 },
+    ]);
+  });
+});
+
+describe('groupBy', () => {
+  it('computes aggregations per group', () => {
+    expect(
+      rows(
+        groupBy(
+          sales(),
+          ['region'],
+          [
+            { aggregation: 'count', column: 'revenue', destinationKey: 'count', separator: '' },
+            { aggregation: 'sum', column: 'revenue', destinationKey: 'total.sum', separator: '' },
+            {
+              aggregation: 'countDistinct',
+              column: 'month',
+              destinationKey: 'months',
+              separator: '',
+            },
+            { aggregation: 'concatenate', column: 'month', destinationKey: 'list', separator: '|' },
+          ],
+        ),
+      ),
+    ).toEqual([
+      { region: 'north', count: 2, total: { sum: 30 }, months: 2, list: 'jan|feb' },
+      { region: 'south', count: 3, total: { sum: 25 }, months: 2, list: 'jan|feb|feb' },
+    ]);
+  });
+
+  it('computes min and max of large groups', () => {
+    const items = Array.from({ length: 200000 }, (_, index) => ({ json: { group: 1, n: index } }));
+    expect(
+      rows(
+        groupBy(
+          items,
+          ['group'],
+          [
+            { aggregation: 'min', column: 'n', destinationKey: 'min', separator: '' },
+            { aggregation: 'max', column: 'n', destinationKey: 'max', separator: '' },
+          ],
+        ),
+      ),
+    ).toEqual([{ group: 1, min: 0, max: 199999 }]);
+  });
+});
+
+describe('join', () => {
+  const collision = { mode: 'suffix' as const, leftAffix: '_left', rightAffix: '_right' };
+  const orders = () => table({ id: 1, total: 5 }, { id: 3, total: 7 });
+
+  it('joins matching rows and renames colliding columns', () => {
+    const result = join(
+      table({ id: 1, name: 'Ada' }, { id: 2, name: 'Alan' }),
+      table({ id: 1, name: 'Order' }),
+      'inner',
+      ['id'],
+      ['id'],
+      collision,
+      'none',
+    );
+    expect(rows(result)).toEqual([{ id: 1, name_left: 'Ada', name_right: 'Order' }]);
+  });
+
+  it.each([
+    ['left', [1, 2, 4]],
+    ['right', [1, 3]],
+    ['full', [1, 2, 4, 3]],
+    ['leftAnti', [2, 4]],
+    ['rightAnti', [3]],
+  ] as const)('supports %s joins', (joinType, ids) => {
+    const result = join(
+      people().slice(0, 2).concat(people().slice(3)),
+      orders(),
+      joinType,
+      ['id'],
+      ['id'],
+      collision,
+      'none',
+    );
+    expect(result.map((item) => item.json.id)).toEqual(ids);
+  });
+
+  it('does not match rows with null or missing keys', () => {
+    const result = join(
+      table({ id: null, name: 'Ada' }, { name: 'Alan' }, { id: 1, name: 'Grace' }),
+      table({ id: null, total: 5 }, { total: 6 }, { id: 1, total: 7 }),
+      'full',
+      ['id'],
+      ['id'],
+      collision,
+      'none',
+    );
+    expect(result.map(({ json }) => [json.name, json.total])).toEqual([
+      ['Ada', null],
+      ['Alan', null],
+      ['Grace', 7],
+      [null, 5],
+      [null, 6],
+    ]);
+  });
+
+  it('throws if the key columns do not match', () => {
+    expect(() => join(people(), orders(), 'inner', ['id'], [], collision, 'none')).toThrow();
+  });
+});
+
+describe('navigateIntoCell', () => {
+  it('navigates into a deep path of a single row', () => {
+    expect(
+      rows(
+        navigateIntoCell(
+          nestedTable(),
+          0,
+          () => 'data.results[*].items',
+          always(false),
+          always(true),
+        ),
+      ),
+    ).toEqual([{ sku: 'a' }, { sku: 'b' }, { sku: 'c' }]);
+  });
+
+  it('throws if the row is out of bounds', () => {
+    expect(() =>
+      navigateIntoCell(people(), 10, () => 'id', always(false), always(false)),
+    ).toThrow();
+  });
+});
+
+describe('navigateIntoCol', () => {
+  it('navigates into a deep path of every row', () => {
+    expect(
+      rows(
+        navigateIntoCol(nestedTable(), () => 'data.results[*].items', always(false), always(true)),
+      ),
+    ).toEqual([{ sku: 'a' }, { sku: 'b' }, { sku: 'c' }, { sku: 'd' }]);
+  });
+
+  it('extends the rows with the previous data', () => {
+    const items = table({ id: 1, tags: ['a', 'b'] });
+    expect(rows(navigateIntoCol(items, () => 'tags', always(true), always(true)))).toEqual([
+      { id: 1, tags: 'a' },
+      { id: 1, tags: 'b' },
+    ]);
+  });
+
+  it('evaluates the column per row', () => {
+    const items = table({ a: 'x', b: 'y' }, { a: 'z', b: 'w' });
+    expect(
+      rows(
+        navigateIntoCol(items, (index) => (index === 0 ? 'a' : 'b'), always(false), always(false)),
+      ),
+    ).toEqual([{ a: 'x' }, { b: 'w' }]);
+  });
+
+  it('navigates into paths below numeric keys', () => {
+    const items = table({ 0: { name: 'x', other: 1 }, 2020: { x: 5 } });
+    expect(rows(navigateIntoCol(items, () => '0.name', always(false), always(false)))).toEqual([
+      { name: 'x' },
+    ]);
+    expect(rows(navigateIntoCol(items, () => '2020.x', always(false), always(false)))).toEqual([
+      { x: 5 },
+    ]);
+  });
+
+  it('navigates into large arrays', () => {
+    const items = [{ json: { values: Array.from({ length: 200000 }, (_, index) => index) } }];
+    const result = navigateIntoCol(items, () => 'values', always(false), always(true));
+    expect(result).toHaveLength(200000);
+    expect(result[199999].json).toEqual({ values: 199999 });
+  });
+});
+
+describe('navigateIntoRow', () => {
+  it('emits one row per column', () => {
+    expect(rows(navigateIntoRow(people(), 0, '', always(false), always(false)))).toEqual([
+      { id: 1 },
+      { name: 'Ada' },
+      { city: 'London' },
+      { age: 36 },
+    ]);
+  });
+
+  it('extends the rows with the navigated row instead of the column across all rows', () => {
+    const items = table({ id: 1, tags: ['a', 'b'] }, { id: 2, tags: ['c'] });
+    expect(rows(navigateIntoRow(items, 0, '', always(true), always(true)))).toEqual([
+      { id: 1, tags: ['a', 'b'] },
+      { id: 1, tags: 'a' },
+      { id: 1, tags: 'b' },
+    ]);
+  });
+
+  it('keeps arrays and null values as cells', () => {
+    expect(
+      rows(navigateIntoRow(table({ a: [1, 2], b: null }), 0, '', always(false), always(false))),
+    ).toEqual([{ a: [1, 2] }, { b: null }]);
+  });
+});
+
+describe('demoteHeader and promoteHeader', () => {
+  it('round trips a table', () => {
+    const items = promoteHeader(headerTable());
+    expect(rows(items)).toEqual([
+      { id: 1, name: 'Ada', active: true },
+      { id: 2, name: 'Alan', active: false },
+    ]);
+    expect(rows(demoteHeader(items))).toEqual(rows(headerTable()));
+  });
+
+  it('does not mutate the input header', () => {
+    const items = table({ 0: 'a', 1: 'a', 2: '' }, { 0: 0, 1: false, 2: 1 });
+    const snapshot = JSON.parse(JSON.stringify(items));
+    expect(rows(promoteHeader(items))).toEqual([{ a: 0, a_0: false, 2: 1 }]);
+    expect(items).toEqual(snapshot);
+  });
+
+  it('merges multiple header rows below a title row', () => {
+    const items = table(
+      { 0: 'Report', 1: '', 2: '' },
+      { 0: '', 1: 'Q1', 2: '' },
+      { 0: 'id', 1: 'Revenue', 2: 'Cost' },
+      { 0: 1, 1: 10, 2: 5 },
+    );
+    const options = {
+      headerRow: 1,
+      headerRows: 2,
+      separator: '.',
+      emptyName: 'column{index}',
+      duplicateName: '{name} ({counter})',
+    };
+    const promoted = promoteHeader(items, options);
+    expect(rows(promoted)).toEqual([{ id: 1, 'Q1.Revenue': 10, 'Q1.Cost': 5 }]);
+    expect(rows(demoteHeader(promoted, '.'))).toEqual([
+      { 0: 'id', 1: 'Q1', 2: 'Q1' },
+      { 0: '', 1: 'Revenue', 2: 'Cost' },
+      { 0: 1, 1: 10, 2: 5 },
+    ]);
+  });
+
+  it('generates empty and duplicate names', () => {
+    const options = {
+      headerRow: 0,
+      headerRows: 1,
+      separator: ' ',
+      emptyName: 'column{index}',
+      duplicateName: '{name} ({counter})',
+    };
+    expect(
+      Object.keys(promoteHeader(table({ 0: 'a', 1: 'a', 2: '' }, {}), options)[0].json),
+    ).toEqual(['a', 'a (0)', 'column2']);
+    expect(() => promoteHeader(people(), { ...options, headerRow: 4 })).toThrow();
+  });
+});
+
+describe('count', () => {
+  it.each([
+    ['rows', 4],
+    ['cols', 4],
+    ['cells', 16],
+  ] as const)('counts %s', (countType, expected) => {
+    expect(rows(count(people(), countType, () => 'result.count'))).toEqual([
+      { result: { count: expected } },
+    ]);
+  });
+});
+
+describe('flatten and unflatten', () => {
+  it('round trips nested objects', () => {
+    const items = table({ a: { b: { c: 1 } }, d: [1, 2] });
+    const flat = flatten(items, '.', 0, true);
+    expect(rows(flat)).toEqual([{ 'a.b.c': 1, 'd.0': 1, 'd.1': 2 }]);
+    expect(rows(unflatten(flat, '.'))).toEqual([{ a: { b: { c: 1 } }, d: [1, 2] }]);
+  });
+
+  it('respects the max depth', () => {
+    expect(rows(flatten(table({ a: { b: { c: 1 } } }), '_', 1, false))).toEqual([
+      { a_b: { c: 1 } },
+    ]);
+  });
+});
+
+describe('filter', () => {
+  it('returns kept and rejected rows', () => {
+    const [kept, rejected] = filter(
+      people(),
+      [
+        { column: 'city', operation: 'equals', value: 'London' },
+        { column: 'age', operation: 'greaterThan', value: '40' },
+      ],
+      'and',
+    );
+    expect(kept.map((item) => item.json.id)).toEqual([2]);
+    expect(rejected.map((item) => item.json.id)).toEqual([1, 3, 4]);
+  });
+
+  it('combines conditions with or', () => {
+    const [kept] = filter(
+      people(),
+      [
+        { column: 'age', operation: 'isEmpty', value: '' },
+        { column: 'name', operation: 'regex', value: '^G' },
+      ],
+      'or',
+    );
+    expect(kept.map((item) => item.json.id)).toEqual([3, 4]);
+  });
+});
+
+describe('sort', () => {
+  it('sorts by multiple columns with nulls last', () => {
+    const sorted = sort(people(), [
+      { column: 'city', direction: 'ascending', comparison: 'string', nulls: 'last' },
+      { column: 'age', direction: 'descending', comparison: 'numeric', nulls: 'last' },
+    ]);
+    expect(sorted.map((item) => item.json.id)).toEqual([4, 2, 1, 3]);
+  });
+
+  it('sorts naturally', () => {
+    const items = table({ f: 'file10' }, { f: 'file2' }, { f: 'file1' });
+    expect(
+      sort(items, [
+        { column: 'f', direction: 'ascending', comparison: 'natural', nulls: 'last' },
+      ]).map((item) => item.json.f),
+    ).toEqual(['file1', 'file2', 'file10']);
+  });
+});
+
+describe('removeDuplicates', () => {
+  it('keeps the first or last row of duplicates', () => {
+    expect(removeDuplicates(people(), ['city'], 'first').map((item) => item.json.id)).toEqual([
+      1, 3, 4,
+    ]);
+    expect(removeDuplicates(people(), ['city'], 'last').map((item) => item.json.id)).toEqual([
+      2, 3, 4,
+    ]);
+  });
+});
+
+describe('limit', () => {
+  it.each([
+    ['head', 2, 0, [1, 2]],
+    ['tail', 2, 0, [3, 4]],
+    ['offset', 2, 1, [2, 3]],
+  ] as const)('limits %s', (mode, rowCount, offset, ids) => {
+    expect(limit(people(), mode, rowCount, offset).map((item) => item.json.id)).toEqual(ids);
+  });
+});
+
+describe('column operations', () => {
+  it('selects and drops columns', () => {
+    expect(rows(selectColumns(people(), ['name', 'age']))[3]).toEqual({ name: 'Linus', age: null });
+    expect(Object.keys(dropColumns(people(), ['city', 'age'])[0].json)).toEqual(['id', 'name']);
+  });
+
+  it('renames columns', () => {
+    expect(Object.keys(renameColumns(people(), [{ from: 'name', to: 'label' }])[0].json)).toEqual([
+      'id',
+      'label',
+      'city',
+      'age',
+    ]);
+    expect(Object.keys(renameColumnsByRegex(people(), '^(.)', '$1_')[0].json)).toEqual([
+      'i_d',
+      'n_ame',
+      'c_ity',
+      'a_ge',
+    ]);
+  });
+
+  it('reorders columns with a rest placeholder', () => {
+    expect(Object.keys(reorderColumns(people(), ['age', '*', 'id'])[0].json)).toEqual([
+      'age',
+      'name',
+      'city',
+      'id',
+    ]);
+  });
+
+  it('adds a column from a template', () => {
+    expect(addColumn(people(), 'label', '{name} ({city})')[0].json.label).toBe('Ada (London)');
+  });
+});
+
+describe('parseCsv', () => {
+  it('parses quoted multiline fields with a header', () => {
+    expect(rows(parseCsv('a;b\n1;"x;\ny"\n2;""""', '', '"', '"', true))).toEqual([
+      { a: '1', b: 'x;\ny' },
+      { a: '2', b: '"' },
+    ]);
+  });
+
+  it('keeps numeric keys without a header', () => {
+    expect(rows(parseCsv('a,b\n1,2', ',', '"', '"', false))).toEqual([
+      { 0: 'a', 1: 'b' },
+      { 0: '1', 1: '2' },
+    ]);
+  });
+
+  it('detects the delimiter by the first row only', () => {
+    expect(rows(parseCsv('a;b\n1,2,3;4', '', '"', '"', true))).toEqual([{ a: '1,2,3', b: '4' }]);
+  });
+});
+
+describe('exportTable', () => {
+  it('exports csv and markdown', () => {
+    const items = table({ a: 1, b: 'x,y' }, { a: 2 });
+    expect(exportTable(items, 'csv', true, ',', '').data.toString()).toBe('a,b\r\n1,"x,y"\r\n2,');
+    expect(exportTable(items, 'markdown', true, ',', '').data.toString()).toBe(
+      '| a | b |\n| --- | --- |\n| 1 | x,y |\n| 2 |  |',
+    );
+  });
+
+  it('exports xlsx', () => {
+    const file = exportTable(people(), 'xlsx', true, ',', '');
+    expect(file.fileExtension).toBe('xlsx');
+    expect(file.data.length).toBeGreaterThan(0);
+  });
+});
+
+describe('inferSchema and convertTypes', () => {
+  const options = { numberLocale: 'de-DE', dateFormat: 'DD.MM.YYYY', onError: 'fail' as const };
+
+  it('infers and converts column types', () => {
+    const items = table(
+      { n: '1.234,5', b: 'true', d: '05.01.2024', j: '{"a":1}', s: 'x' },
+      { n: '2', b: 'false', d: '06.01.2024', j: '[1]', s: '1' },
+    );
+    const schema = inferSchema(items, 0, options);
+    expect(schema).toEqual([
+      { column: 'n', type: 'number' },
+      { column: 'b', type: 'boolean' },
+      { column: 'd', type: 'date' },
+      { column: 'j', type: 'json' },
+      { column: 's', type: 'string' },
+    ]);
+    expect(convertTypes(items, schema, options)[0].json).toEqual({
+      n: 1234.5,
+      b: true,
+      d: '2024-01-05T00:00:00.000Z',
+      j: { a: 1 },
+      s: 'x',
+    });
+  });
+
+  it('fails, nulls or keeps invalid values', () => {
+    const items = table({ n: 'x' });
+    const schema = [{ column: 'n', type: 'number' as const }];
+    expect(() => convertTypes(items, schema, options)).toThrow();
+    expect(convertTypes(items, schema, { ...options, onError: 'null' })[0].json.n).toBeNull();
+    expect(convertTypes(items, schema, { ...options, onError: 'keep' })[0].json.n).toBe('x');
+  });
+
+  it('accepts only ISO-like dates without a date format', () => {
+    const schema = [{ column: 'd', type: 'date' as const }];
+    const isoOptions = { ...options, dateFormat: '' };
+    expect(convertTypes(table({ d: '2024-01-05' }), schema, isoOptions)[0].json.d).toBe(
+      '2024-01-05T00:00:00.000Z',
+    );
+    expect(() => convertTypes(table({ d: '1' }), schema, isoOptions)).toThrow();
+    expect(() => convertTypes(table({ d: 'Monday 12' }), schema, isoOptions)).toThrow();
+  });
+});
+
+describe('validate', () => {
+  it('annotates invalid rows with errors', () => {
+    const [valid, invalid] = validate(people(), [
+      { column: 'age', rule: 'required', type: 'string', value: '' },
+      { column: 'city', rule: 'unique', type: 'string', value: '' },
+      { column: 'age', rule: 'max', type: 'string', value: '80' },
+    ]);
+    expect(valid).toEqual([]);
+    expect(invalid.map((item) => item.json.errors)).toEqual([
+      [{ column: 'city', rule: 'unique' }],
+      [{ column: 'city', rule: 'unique' }],
+      [{ column: 'age', rule: 'max' }],
+      [{ column: 'age', rule: 'required' }],
+    ]);
+  });
+
+  it('rejects dates which are not ISO-like', () => {
+    const [valid, invalid] = validate(table({ d: '2024-01-05' }, { d: '1' }, { d: 'Monday 12' }), [
+      { column: 'd', rule: 'type', type: 'date', value: '' },
+    ]);
+    expect(rows(valid)).toEqual([{ d: '2024-01-05' }]);
+    expect(invalid).toHaveLength(2);
+  });
+});
+
+describe('applyWindowFunctions', () => {
+  it('computes values per partition', () => {
+    const result = applyWindowFunctions(
+      sales(),
+      ['region'],
+      { column: 'revenue', direction: 'ascending', comparison: 'numeric', nulls: 'last' },
+      [
+        { function: 'rowNumber', column: '', destinationKey: 'row', offset: 1, windowSize: 1 },
+        {
+          function: 'runningSum',
+          column: 'revenue',
+          destinationKey: 'sum',
+          offset: 1,
+          windowSize: 1,
+        },
+        {
+          function: 'denseRank',
+          column: 'revenue',
+          destinationKey: 'rank',
+          offset: 1,
+          windowSize: 1,
+        },
+        { function: 'lag', column: 'revenue', destinationKey: 'lag', offset: 1, windowSize: 1 },
+      ],
+    );
+    expect(result.map(({ json }) => [json.row, json.sum, json.rank, json.lag])).toEqual([
+      [1, 10, 1, null],
+      [2, 30, 2, 10],
+      [1, 5, 1, null],
+      [3, 25, 2, 5],
+      [2, 10, 1, 5],
+    ]);
+  });
+
+  it('does not change the nested data of the input rows', () => {
+    const items = table({ v: 1, s: { a: 1 } });
+    const [item] = applyWindowFunctions(items, [], undefined, [
+      { function: 'rowNumber', column: '', destinationKey: 's.rn', offset: 1, windowSize: 1 },
+    ]);
+    expect(item.json).toEqual({ v: 1, s: { a: 1, rn: 1 } });
+    expect(items[0].json).toEqual({ v: 1, s: { a: 1 } });
+  });
+
+  it.each([
+    [
+      'ranks peers by the order column',
+      { column: 'month', direction: 'ascending', comparison: 'string', nulls: 'last' } as const,
+      [
+        [4, 2],
+        [1, 1],
+        [4, 2],
+        [1, 1],
+        [1, 1],
+      ],
+    ],
+    [
+      'ranks by the row order without an order column',
+      undefined,
+      [
+        [1, 1],
+        [2, 2],
+        [3, 3],
+        [4, 4],
+        [5, 5],
+      ],
+    ],
+  ])('%s', (_, orderBy, ranks) => {
+    const result = applyWindowFunctions(sales(), [], orderBy, [
+      { function: 'rank', column: '', destinationKey: 'rank', offset: 1, windowSize: 1 },
+      { function: 'denseRank', column: '', destinationKey: 'dense', offset: 1, windowSize: 1 },
+    ]);
+    expect(result.map(({ json }) => [json.rank, json.dense])).toEqual(ranks);
+  });
+});
+
+describe('split, combine and collapse', () => {
+  it('splits a column into columns or rows', () => {
+    const items = table({ id: 1, tags: 'a;b' });
+    expect(rows(splitColumn(items, 'tags', ';', false, 'columns', ['first', 'second']))).toEqual([
+      { id: 1, first: 'a', second: 'b' },
+    ]);
+    expect(rows(splitColumn(items, 'tags', '[;]', true, 'rows', []))).toEqual([
+      { id: 1, tags: 'a' },
+      { id: 1, tags: 'b' },
+    ]);
+  });
+
+  it('combines columns', () => {
+    expect(combineColumns(people(), ['name', 'city'], ' - ', 'label')[0].json.label).toBe(
+      'Ada - London',
+    );
+  });
+
+  it('collapses rows sharing a key', () => {
+    expect(rows(collapseRows(sales(), ['region'], 'joined', ','))[0]).toEqual({
+      region: 'north',
+      month: 'jan,feb',
+      revenue: '10,20',
+    });
+  });
+});
+
+describe('fill', () => {
+  it('fills empty cells down and normalizes rows', () => {
+    const items = table({ group: 'a', value: 1 }, { group: '', value: 2 }, { value: 3 });
+    expect(
+      rows(fill(items, ['group'], 'down', () => null, ['missing', 'emptyString'], true)),
+    ).toEqual([
+      { group: 'a', value: 1 },
+      { group: 'a', value: 2 },
+      { group: 'a', value: 3 },
+    ]);
+  });
+
+  it('fills empty cells with a value', () => {
+    expect(rows(fill(people(), [], 'value', () => 0, ['missing'], false))[3]).toEqual({
+      id: 4,
+      name: 'Linus',
+      city: 'Helsinki',
+      age: 0,
+    });
+  });
+});
+
+describe('splitByValue', () => {
+  it('routes rows by the first matching rule', () => {
+    const outputs = splitByValue(
+      people(),
+      'city',
+      [
+        { operation: 'equals', value: 'London', output: 1 },
+        { operation: 'contains', value: 'York', output: 3 },
+      ],
+      4,
+    );
+    expect(outputs.map((items) => items.map((item) => item.json.id))).toEqual([
+      [4],
+      [1, 2],
+      [],
+      [3],
+    ]);
+  });
+
+  it('throws if an output does not exist', () => {
+    expect(() =>
+      splitByValue(people(), 'city', [{ operation: 'equals', value: '', output: 4 }], 4),
+    ).toThrow();
+  });
+});
+
+describe('compare', () => {
+  it('classifies rows by key columns', () => {
+    const today = table({ id: 1, name: 'Ada', age: 37 }, { id: 2, name: 'Alan' }, { id: 5 });
+    const result = compare(today, people(), ['id'], ['id'], [], 'status', 'changes');
+    expect(result.added.map((item) => item.json.id)).toEqual([5]);
+    expect(result.removed.map((item) => item.json.id)).toEqual([3, 4]);
+    expect(result.changed.map((item) => item.json.changes)).toEqual([
+      { city: { before: 'London', after: null }, age: { before: 36, after: 37 } },
+      { city: { before: 'London', after: null }, age: { before: 41, after: null } },
+    ]);
+    expect(result.unchanged).toEqual([]);
+  });
+
+  it('does not change the nested data of the input rows', () => {
+    const items = table({ id: 1, meta: { source: 'a' } });
+    const result = compare(items, [], ['id'], ['id'], [], 'meta.status', 'changes');
+    expect(result.added[0].json.meta).toEqual({ source: 'a', status: 'added' });
+    expect(items[0].json.meta).toEqual({ source: 'a' });
+  });
+
+  it('compares only the selected columns', () => {
+    const result = compare(
+      table({ id: 1, name: 'Ada' }),
+      people(),
+      ['id'],
+      ['id'],
+      ['name'],
+      '',
+      'c',
+    );
+    expect(rows(result.unchanged)).toEqual([{ id: 1, name: 'Ada' }]);
+  });
+});
+
+describe('profile', () => {
+  it('returns statistics for each column', () => {
+    const options = { numberLocale: 'en-US', dateFormat: '', onError: 'null' as const };
+    const [id, name, city, age] = rows(profile(people(), 1, options));
+    expect(id).toMatchObject({ column: 'id', type: 'number', min: 1, max: 4, mean: 2.5 });
+    expect(name).toMatchObject({ type: 'string', minLength: 3, maxLength: 5, min: null });
+    expect(city).toMatchObject({
+      distinctCount: 3,
+      mostFrequent: [{ value: 'London', count: 2 }],
+    });
+    expect(age).toMatchObject({ count: 3, nullCount: 1 });
+  });
+
+  it('returns statistics of large columns', () => {
+    const options = { numberLocale: 'en-US', dateFormat: '', onError: 'null' as const };
+    const items = Array.from({ length: 200000 }, (_, index) => ({
+      json: { n: index, text: 'x'.repeat((index % 5) + 1) },
+    }));
+    const [n, text] = rows(profile(items, 0, options));
+    expect(n).toMatchObject({ min: 0, max: 199999 });
+    expect(text).toMatchObject({ minLength: 1, maxLength: 5 });
+  });
+});
+
+describe('lookup', () => {
+  const entries: [unknown, unknown][] = [
+    ['london', 'UK'],
+    ['New York', 'US'],
+  ];
+
+  it('replaces the key column and keeps unknown keys', () => {
+    expect(
+      lookup(people(), 'city', '', entries, undefined, true).map(({ json }) => json.city),
+    ).toEqual(['UK', 'UK', 'US', 'Helsinki']);
+  });
+
+  it('adds a column with a default value', () => {
+    expect(
+      lookup(people(), 'city', 'country', entries, 'unknown', false).map(
+        ({ json }) => json.country,
+      ),
+    ).toEqual(['unknown', 'unknown', 'US', 'unknown']);
+  });
+});
+
+describe('runRowSteps', () => {
+  it('runs each row through all steps with the index of each step', () => {
+    const indexes: number[][] = [];
+    const result = runRowSteps(table({ n: 1 }, { n: 2 }), [
+      (item, index) => {
+        indexes.push([0, index]);
+        return [item, { json: { n: (item.json.n as number) * 10 } }];
+      },
+      (item, index) => {
+        indexes.push([1, index]);
+        return (item.json.n as number) > 1 ? [item] : [];
+      },
+    ]);
+    expect(rows(result)).toEqual([{ n: 10 }, { n: 2 }, { n: 20 }]);
+    expect(indexes).toEqual([
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 1],
+      [1, 2],
+      [1, 3],
+    ]);
+  });
+});
+
+describe('batch', () => {
+  it('combines rows into batches', () => {
+    const items = people().map((item, index) => ({ ...item, pairedItem: { item: index } }));
+    const result = batch(items, 3, 'batch.rows');
+    expect(result.map(({ json }) => (json.batch as { rows: object[] }).rows.length)).toEqual([
+      3, 1,
+    ]);
+    expect(result[1].pairedItem).toEqual({ item: 3 });
+  });
+});
+
+describe('getTableColumns', () => {
+  it('handles wide tables', () => {
+    const row = Object.fromEntries(Array.from({ length: 500 }, (_, index) => [`c${index}`, index]));
+    const items = Array.from({ length: 2000 }, () => ({ json: { ...row } }));
+    expect(rows(selectColumns(items, ['c499', 'c0']))[1999]).toEqual({ c499: 499, c0: 0 });
+  });
+});
@@ -0,0 +1,425 @@
+import { INodeExecutionData } from 'n8n-workflow';
+import { TableTransform } from '../nodes/TableTransformation/TableTransformation.node';
+import { mockExecuteFunctions } from './executeFunctions';
+import { binaryFile, headerTable, nestedTable, people, rows, sales, table } from './fixtures';
+
+/**
+ * Runs the node with the given transformation steps.
+ *
+ * @param   {object[]}                        transformation - The transformation steps.
+ * @param   {INodeExecutionData[][]}          inputs         - The exection data of each input.
+ * @param   {boolean}                         continueOnFail - Whether the node continues on fail.
+ * @returns {Promise<INodeExecutionData[][]>}                The exection data of each output.
+ */
+function run(
+  transformation: object[],
+  inputs: INodeExecutionData[][],
+  continueOnFail = false,
+): Promise<INodeExecutionData[][]> {
+  return new TableTransform().execute.call(
+    mockExecuteFunctions({ transformations: { transformation } }, inputs, continueOnFail),
+  );
+}
+
+describe('TableTransform', () => {
+  it('returns the input unchanged without transformations', async () => {
+    const [table, ...branches] = await run([], [people()]);
+    expect(rows(table)).toEqual(rows(people()));
+    expect(branches).toEqual([[], [], [], [], [], [], [], []]);
+  });
+
+  it('runs multiple steps with their own parameters', async () => {
+    const [result] = await run(
+      [
+        { action: 'promoteHeader' },
+        {
+          action: 'filter',
+          conditions: { condition: [{ column: 'active', operation: 'equals', value: 'true' }] },
+          combineConditions: 'and',
+          routeRejected: false,
+        },
+        { action: 'selectColumns', columns: 'name' },
+      ],
+      [headerTable()],
+    );
+    expect(rows(result)).toEqual([{ name: 'Ada' }]);
+  });
+
+  it('evaluates navigate expressions per item', async () => {
+    const [result] = await run(
+      [
+        {
+          action: 'navigate',
+          navigateType: 'col',
+          col: (index: number) => (index === 0 ? 'data.results[*].items' : 'id'),
+          expand: false,
+          loopArray: true,
+        },
+      ],
+      [nestedTable()],
+    );
+    expect(rows(result)).toEqual([{ sku: 'a' }, { sku: 'b' }, { sku: 'c' }, { id: 2 }]);
+  });
+
+  it('joins the second input', async () => {
+    const [result] = await run(
+      [
+        {
+          action: 'join',
+          joinType: 'inner',
+          leftKeys: 'region',
+          rightKeys: '',
+          collision: 'suffix',
+          leftAffix: '',
+          rightAffix: '_manager',
+          joinBinary: 'none',
+        },
+        { action: 'groupBy', groupColumns: 'manager', aggregations: {} },
+      ],
+      [sales(), table({ region: 'north', manager: 'Ada' }, { region: 'east', manager: 'Alan' })],
+    );
+    expect(rows(result)).toEqual([{ manager: 'Ada' }]);
+  });
+
+  it('routes rejected and invalid rows to their own outputs', async () => {
+    const [valid, rejected, invalid] = await run(
+      [
+        {
+          action: 'filter',
+          conditions: { condition: [{ column: 'city', operation: 'equals', value: 'London' }] },
+          combineConditions: 'and',
+          routeRejected: true,
+        },
+        {
+          action: 'validate',
+          rules: { rule: [{ column: 'age', rule: 'min', value: '40' }] },
+        },
+      ],
+      [people()],
+    );
+    expect(valid.map((item) => item.json.id)).toEqual([2]);
+    expect(rejected.map((item) => item.json.id)).toEqual([3, 4]);
+    expect(invalid.map((item) => item.json.id)).toEqual([1]);
+  });
+
+  it('looks up values from the second input or a JSON object', async () => {
+    const [result] = await run(
+      [
+        {
+          action: 'lookup',
+          lookupColumn: 'region',
+          lookupDestination: 'manager',
+          lookupSource: 'input',
+          lookupKeyColumn: 'region',
+          lookupValueColumn: 'name',
+          useDefaultValue: false,
+          caseInsensitive: false,
+        },
+        {
+          action: 'lookup',
+          lookupColumn: 'month',
+          lookupDestination: '',
+          lookupSource: 'json',
+          lookupJson: '{"jan": 1, "feb": 2}',
+          useDefaultValue: true,
+          defaultValue: '',
+          caseInsensitive: false,
+        },
+      ],
+      [sales(), table({ region: 'north', name: 'Ada' })],
+    );
+    expect(result.map(({ json }) => [json.manager, json.month])).toEqual([
+      ['Ada', 1],
+      ['Ada', 2],
+      [null, 1],
+      [null, 2],
+      [null, 2],
+    ]);
+  });
+
+  it('splits by value into outputs', async () => {
+    const outputs = await run(
+      [
+        {
+          action: 'splitByValue',
+          splitByColumn: 'region',
+          splitMode: 'outputs',
+          splitRules: { rule: [{ operation: 'equals', value: 'south', output: 2 }] },
+        },
+      ],
+      [sales()],
+    );
+    expect(outputs.map((items) => items.length)).toEqual([2, 0, 0, 0, 0, 0, 0, 3, 0]);
+  });
+
+  it('compares with the second input on separate outputs', async () => {
+    const outputs = await run(
+      [
+        {
+          action: 'compare',
+          leftKeys: 'id',
+          rightKeys: '',
+          compareColumns: '',
+          compareMode: 'outputs',
+          changesKey: 'changes',
+        },
+      ],
+      [table({ id: 1, name: 'Ada', city: 'London', age: 36 }, { id: 9 }), people()],
+    );
+    const [added, , , removed, changed, unchanged] = outputs;
+    expect(
+      [added, removed, changed, unchanged].map((items) => items.map(({ json }) => json.id)),
+    ).toEqual([[9], [2, 3, 4], [], [1]]);
+  });
+
+  it('parses CSV from binary data', async () => {
+    const [result] = await run(
+      [
+        {
+          action: 'parseCsv',
+          csvSource: 'binary',
+          binaryPropertyName: 'data',
+          encoding: 'utf8',
+          delimiter: '',
+          quote: '"',
+          escape: '"',
+          firstRowIsHeader: true,
+        },
+      ],
+      [
+        [
+          { json: {}, binary: { data: binaryFile('id;name\n1;Ada') } },
+          { json: {}, binary: { data: binaryFile('id;name\n2;Alan\n3;Grace') } },
+        ],
+      ],
+    );
+    expect(rows(result)).toEqual([
+      { id: '1', name: 'Ada' },
+      { id: '2', name: 'Alan' },
+      { id: '3', name: 'Grace' },
+    ]);
+    expect(result.map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 1 }, { item: 1 }]);
+  });
+
+  it('parses CSV from the binary data of sorted and merged rows', async () => {
+    const items = table({ n: 2, group: 1 }, { n: 1, group: 1 });
+    items[0].binary = { data: binaryFile('x\nfromB') };
+    items[1].binary = { data: binaryFile('x\nfromA') };
+    const parseStep = {
+      action: 'parseCsv',
+      csvSource: 'binary',
+      encoding: 'utf8',
+      delimiter: ',',
+      quote: '"',
+      escape: '"',
+      firstRowIsHeader: true,
+    };
+    const [sorted] = await run(
+      [
+        {
+          action: 'sort',
+          sortKeys: { sortKey: [{ column: 'n', comparison: 'numeric' }] },
+        },
+        { ...parseStep, binaryPropertyName: 'data' },
+      ],
+      [items],
+    );
+    expect(rows(sorted)).toEqual([{ x: 'fromA' }, { x: 'fromB' }]);
+    expect(sorted.map((item) => item.pairedItem)).toEqual([{ item: 1 }, { item: 0 }]);
+
+    const [merged] = await run(
+      [
+        { action: 'groupBy', groupColumns: 'group', aggregations: {}, binaryPolicy: 'merge' },
+        { ...parseStep, binaryPropertyName: 'data_1' },
+      ],
+      [items],
+    );
+    expect(rows(merged)).toEqual([{ x: 'fromA' }]);
+  });
+
+  it('exports the table as binary data', async () => {
+    const [[item]] = await run(
+      [
+        { action: 'selectColumns', columns: 'id,name' },
+        {
+          action: 'exportTable',
+          exportFormat: 'csv',
+          includeHeader: true,
+          delimiter: ';',
+          fileName: '',
+          binaryPropertyName: 'data',
+        },
+      ],
+      [people()],
+    );
+    expect(item.binary?.data.fileName).toBe('table.csv');
+    expect(Buffer.from(item.binary?.data.data ?? '', 'base64').toString()).toBe(
+      'id;name\r\n1;Ada\r\n2;Alan\r\n3;Grace\r\n4;Linus',
+    );
+  });
+
+  it('pairs the rows with the input rows across steps', async () => {
+    const [result] = await run(
+      [
+        {
+          action: 'navigate',
+          navigateType: 'col',
+          col: 'data.results',
+          expand: true,
+          loopArray: true,
+        },
+        { action: 'groupBy', groupColumns: 'id', aggregations: {} },
+      ],
+      [nestedTable()],
+    );
+    expect(result.map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 1 }]);
+  });
+
+  it('pairs joined rows with both inputs', async () => {
+    const [[item]] = await run(
+      [
+        {
+          action: 'join',
+          joinType: 'inner',
+          leftKeys: 'id',
+          rightKeys: '',
+          collision: 'suffix',
+          leftAffix: '',
+          rightAffix: '_right',
+          joinBinary: 'none',
+        },
+      ],
+      [people(), table({ id: 3 })],
+    );
+    expect(item.pairedItem).toEqual([{ item: 2 }, { item: 0, input: 1 }]);
+  });
+
+  it.each([
+    ['keep', [['a.txt'], ['a.txt'], ['b.txt']]],
+    ['first', [['a.txt'], [], ['b.txt']]],
+    ['drop', [[], [], []]],
+  ])('applies the %s binary policy', async (binaryPolicy, fileNames) => {
+    const items = table({ tags: ['x', 'y'] }, { tags: ['z'] });
+    items[0].binary = { data: binaryFile('a.txt') };
+    items[1].binary = { data: binaryFile('b.txt') };
+    const [result] = await run(
+      [
+        {
+          action: 'splitColumn',
+          sourceColumn: 'tags',
+          splitSeparator: ',',
+          splitBy: 'delimiter',
+          splitInto: 'rows',
+          binaryPolicy,
+        },
+      ],
+      [
+        items.map((item) => ({
+          ...item,
+          json: { tags: (item.json.tags as string[]).join(',') },
+        })),
+      ],
+    );
+    expect(
+      result.map((item) => Object.values(item.binary ?? {}).map((data) => data.fileName)),
+    ).toEqual(fileNames);
+  });
+
+  it('drops the binary data of aggregated rows by default', async () => {
+    const items = table({ group: 1 }, { group: 1 });
+    items[0].binary = { data: binaryFile('a.txt') };
+    const [[grouped]] = await run(
+      [{ action: 'groupBy', groupColumns: 'group', aggregations: {} }],
+      [items],
+    );
+    const [[counted]] = await run(
+      [{ action: 'count', countType: 'rows', destinationKey: 'count' }],
+      [items],
+    );
+    expect(grouped.binary).toBeUndefined();
+    expect(counted.binary).toBeUndefined();
+  });
+
+  it('merges the binary data of grouped rows', async () => {
+    const items = table({ group: 1 }, { group: 1 });
+    items[0].binary = { data: binaryFile('a.txt') };
+    items[1].binary = { data: binaryFile('b.txt') };
+    const [[item]] = await run(
+      [{ action: 'groupBy', groupColumns: 'group', aggregations: {}, binaryPolicy: 'merge' }],
+      [items],
+    );
+    expect(Object.keys(item.binary ?? {})).toEqual(['data', 'data_1']);
+    expect(item.pairedItem).toEqual([{ item: 0 }, { item: 1 }]);
+  });
+
+  it('fuses row steps and emits batches', async () => {
+    const outputs = await new TableTransform().execute.call(
+      mockExecuteFunctions(
+        {
+          transformations: {
+            transformation: [
+              {
+                action: 'filter',
+                conditions: { condition: [{ column: 'age', operation: 'isNotEmpty' }] },
+                combineConditions: 'and',
+                routeRejected: true,
+              },
+              { action: 'addColumn', columnName: 'label', template: '{name} ({age})' },
+              { action: 'dropColumns', columns: 'city,age' },
+              { action: 'sort', sortKeys: {} },
+              { action: 'renameColumns', renameMode: 'mapping', renames: {} },
+            ],
+          },
+          options: { batchSize: 2, batchKey: 'rows' },
+        },
+        [people()],
+      ),
+    );
+    expect(outputs.slice(0, 2).map((items) => items.map(({ json }) => json.rows))).toEqual([
+      [
+        [
+          { id: 1, name: 'Ada', label: 'Ada (36)' },
+          { id: 2, name: 'Alan', label: 'Alan (41)' },
+        ],
+        [{ id: 3, name: 'Grace', label: 'Grace (85)' }],
+      ],
+      [[{ id: 4, name: 'Linus', city: 'Helsinki' }]],
+    ]);
+    expect(outputs[0][0].pairedItem).toEqual([{ item: 0 }, { item: 1 }]);
+  });
+
+  it('routes large tables', async () => {
+    const text = Array.from({ length: 200000 }, (_, index) => index).join('\n');
+    const [kept, rejected] = await run(
+      [
+        {
+          action: 'parseCsv',
+          csvSource: 'json',
+          csvField: 'text',
+          delimiter: ',',
+          quote: '"',
+          escape: '"',
+          firstRowIsHeader: false,
+        },
+        {
+          action: 'filter',
+          conditions: { condition: [{ column: '0', operation: 'lessThan', value: '100' }] },
+          combineConditions: 'and',
+          routeRejected: true,
+        },
+      ],
+      [table({ text })],
+    );
+    expect(kept).toHaveLength(100);
+    expect(rejected).toHaveLength(199900);
+  });
+
+  it('throws a node error or continues on fail', async () => {
+    const transformation = [{ action: 'navigate', navigateType: 'cell', row: 10, col: 'id' }];
+    await expect(run(transformation, [people()])).rejects.toThrow('The row index');
+    const [errors] = await run(transformation, [people()], true);
+    expect(errors).toHaveLength(4);
+    expect(errors[3].json.error).toContain('The row index');
+    expect(errors[3].pairedItem).toEqual({ item: 3 });
+  });
+});
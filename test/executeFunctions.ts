@@ -0,0 +1,51 @@
+import { get } from 'lodash';
+import { IExecuteFunctions } from 'n8n-core';
+import { IBinaryData, INodeExecutionData } from 'n8n-workflow';
+
+/**
+ * Creates mocked execute functions to run a node with the given parameters and inputs.
+ *
+ * @param   {object}                 parameters     - The node parameters, a function is called with
+ *   the item index to simulate expressions.
+ * @param   {INodeExecutionData[][]} inputs         - The exection data of each input.
+ * @param   {boolean}                continueOnFail - Whether the node continues on fail.
+ * @returns {IExecuteFunctions}                     The mocked execute functions.
+ */
+export function mockExecuteFunctions(
+  parameters: object,
+  inputs: INodeExecutionData[][],
+  continueOnFail = false,
+): IExecuteFunctions {
+  return {
+    getInputData: (inputIndex = 0) => inputs[inputIndex],
+    getNodeParameter: (name: string, itemIndex: number, fallbackValue?: unknown) => {
+      const value = get(parameters, name);
+      if (value === undefined) {
+        if (fallbackValue !== undefined) return fallbackValue;
+        throw new Error(`Could not get parameter "${name}"`);
+      }
+      return typeof value === 'function' ? value(itemIndex) : value;
+    },
+    getNode: () => ({
+      name: 'Table Transformation',
+      type: 'tableTransformation',
+      typeVersion: 1,
+      position: [0, 0],
+      parameters: {},
+    }),
+    continueOnFail: () => continueOnFail,
+    helpers: {
+      getBinaryDataBuffer: async (itemIndex: number, propertyName: string): Promise<Buffer> =>
+        Buffer.from(inputs[0][itemIndex].binary?.[propertyName].data ?? '', 'base64'),
+      prepareBinaryData: async (
+        binaryData: Buffer,
+        fileName?: string,
+        mimeType?: string,
+      ): Promise<IBinaryData> => ({
+        data: binaryData.toString('base64'),
+        fileName,
+        mimeType: mimeType ?? 'application/octet-stream',
+      }),
+    },
+  } as unknown as IExecuteFunctions;
+}
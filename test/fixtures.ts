@@ -0,0 +1,68 @@
+import { IBinaryData, INodeExecutionData } from 'n8n-workflow';
+
+/**
+ * Creates exection data from plain row objects.
+ *
+ * @param   {object[]}             rows - The rows.
+ * @returns {INodeExecutionData[]}      The exection data.
+ */
+export function table(...rows: object[]): INodeExecutionData[] {
+  return rows.map((row) => ({ json: JSON.parse(JSON.stringify(row)) }));
+}
+
+/**
+ * Returns the JSON of the exection data.
+ *
+ * @param   {INodeExecutionData[]} items - The exection data.
+ * @returns {object[]}                   The JSON of each row.
+ */
+export function rows(items: INodeExecutionData[]): object[] {
+  return items.map((item) => item.json);
+}
+
+/**
+ * Creates binary data with a file name.
+ *
+ * @param   {string}      fileName - The file name.
+ * @returns {IBinaryData}          The binary data.
+ */
+export function binaryFile(fileName: string): IBinaryData {
+  return {
+    data: Buffer.from(fileName).toString('base64'),
+    mimeType: 'text/plain',
+    fileName,
+  };
+}
+
+export const people = (): INodeExecutionData[] =>
+  table(
+    { id: 1, name: 'Ada', city: 'London', age: 36 },
+    { id: 2, name: 'Alan', city: 'London', age: 41 },
+    { id: 3, name: 'Grace', city: 'New York', age: 85 },
+    { id: 4, name: 'Linus', city: 'Helsinki' },
+  );
+
+export const headerTable = (): INodeExecutionData[] =>
+  table(
+    { 0: 'id', 1: 'name', 2: 'active' },
+    { 0: 1, 1: 'Ada', 2: true },
+    { 0: 2, 1: 'Alan', 2: false },
+  );
+
+export const nestedTable = (): INodeExecutionData[] =>
+  table(
+    {
+      id: 1,
+      data: { results: [{ items: [{ sku: 'a' }, { sku: 'b' }] }, { items: [{ sku: 'c' }] }] },
+    },
+    { id: 2, data: { results: [{ items: [{ sku: 'd' }] }] } },
+  );
+
+export const sales = (): INodeExecutionData[] =>
+  table(
+    { region: 'north', month: 'jan', revenue: 10 },
+    { region: 'north', month: 'feb', revenue: 20 },
+    { region: 'south', month: 'jan', revenue: 5 },
+    { region: 'south', month: 'feb', revenue: 15 },
+    { region: 'south', month: 'feb', revenue: 5 },
+  );